@@ -1,9 +1,11 @@
+import Toolbar from './components/editor/Toolbar'
 import Workspace from './components/editor/Workspace'
 
 export default function App() {
   return (
-    <div className='h-screen p-8 bg-gray-100'>
-      <Workspace />
+    <div className='flex flex-col h-screen gap-4 p-8 bg-gray-100'>
+      <Toolbar />
+      <Workspace className='flex-1 min-h-0' />
     </div>
   )
 }
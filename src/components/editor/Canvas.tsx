@@ -1,36 +1,104 @@
-import { useEffect, useRef } from 'react'
+import { useCallback, useEffect, useRef } from 'react'
 import { cn } from '../../utils/cn'
+import useResizeObserver from '../../hooks/useResizeObserver'
+import { useViewportStore } from '../../stores/viewport.store'
 
 interface Props extends React.ComponentProps<'canvas'> {
+  /**
+   * Paints a frame. The context is cleared and scaled to CSS pixels beforehand,
+   * so drawing code never deals with the device pixel ratio.
+   */
   draw: (ctx: CanvasRenderingContext2D) => void
   zIndex: number
+  /**
+   * Connects the canvas to an external source of changes. Receives a callback
+   * that marks the canvas dirty and must return an unsubscribe function.
+   * Should be referentially stable, e.g. declared at module level.
+   */
+  subscribe?: (invalidate: () => void) => () => void
 }
 
-export default function Canvas({ draw, zIndex, className, ...props }: Props) {
-  const ref = useRef<HTMLCanvasElement | null>(null)
+export default function Canvas({
+  draw,
+  zIndex,
+  subscribe,
+  className,
+  ...props
+}: Props) {
+  const drawRef = useRef(draw)
+  const sizeRef = useRef({ width: 0, height: 0 })
+  // A pending frame doubles as the dirty flag: nothing is painted until
+  // something invalidates the canvas, and invalidating twice before the next
+  // frame still paints once.
+  const frameRef = useRef<number | null>(null)
+
+  const { observableRef: ref } = useResizeObserver<HTMLCanvasElement>(
+    (width, height) => {
+      sizeRef.current = { width, height }
+      invalidate()
+    },
+  )
+
+  const render = useCallback(() => {
+    frameRef.current = null
 
-  useEffect(() => {
     const cv = ref.current
     const ctx = cv?.getContext('2d')
-    let frameId: number | null = null
 
-    if (!ctx) {
+    if (!cv || !ctx) {
       console.error('Canvas context not available')
       return
     }
 
-    function render(ctx: CanvasRenderingContext2D) {
-      draw(ctx)
+    const { pixelRatio } = useViewportStore.getState()
+    const { width, height } = sizeRef.current
+    const backingWidth = Math.round(width * pixelRatio)
+    const backingHeight = Math.round(height * pixelRatio)
+
+    // Assigning the size resets the backing store, so only do it on change
+    if (cv.width !== backingWidth || cv.height !== backingHeight) {
+      cv.width = backingWidth
+      cv.height = backingHeight
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, cv.width, cv.height)
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+
+    drawRef.current(ctx)
+  }, [ref])
 
-      frameId = requestAnimationFrame(() => render(ctx))
+  const invalidate = useCallback(() => {
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(render)
     }
+  }, [render])
 
+  useEffect(() => {
+    drawRef.current = draw
+    invalidate()
+  }, [draw, invalidate])
+
+  useEffect(() => {
+    return subscribe?.(invalidate)
+  }, [subscribe, invalidate])
+
+  // The pixel ratio changes without the element resizing, e.g. when the window
+  // moves between displays, which the resize observer doesn't report.
+  useEffect(() => {
+    return useViewportStore.subscribe((state, prev) => {
+      if (state.pixelRatio !== prev.pixelRatio) invalidate()
+    })
+  }, [invalidate])
+
+  useEffect(() => {
     return () => {
-      if (frameId) {
-        cancelAnimationFrame(frameId)
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current)
+        frameRef.current = null
       }
     }
-  }, [draw])
+  }, [])
 
   return (
     <canvas
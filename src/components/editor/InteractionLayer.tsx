@@ -0,0 +1,59 @@
+import { useInteractionStore } from '../../stores/interaction.store'
+import { useViewportStore } from '../../stores/viewport.store'
+import { applyView, renderShapes } from '../../lib/render/renderer'
+import Canvas from './Canvas'
+
+interface Props {
+  zIndex: number
+}
+
+function draw(ctx: CanvasRenderingContext2D) {
+  const { offset, zoom, getVisibleRect } = useViewportStore.getState()
+  const { previewShapes, marquee } = useInteractionStore.getState()
+  const view = { offset, zoom, visibleRect: getVisibleRect() }
+
+  renderShapes(ctx, previewShapes, view)
+
+  if (marquee) {
+    ctx.save()
+    applyView(ctx, view)
+    ctx.beginPath()
+    ctx.rect(marquee.x, marquee.y, marquee.width, marquee.height)
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.1)'
+    ctx.fill()
+    ctx.strokeStyle = '#3b82f6'
+    ctx.lineWidth = 1 / zoom
+    ctx.stroke()
+    ctx.restore()
+  }
+}
+
+function subscribe(invalidate: () => void) {
+  const unsubscribers = [
+    useViewportStore.subscribe(invalidate),
+    useInteractionStore.subscribe((state, prev) => {
+      if (
+        state.previewShapes !== prev.previewShapes ||
+        state.marquee !== prev.marquee
+      ) {
+        invalidate()
+      }
+    }),
+  ]
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+}
+
+/**
+ * Paints the gesture in progress: drag and creation previews and the marquee.
+ */
+export default function InteractionLayer({ zIndex }: Props) {
+  return (
+    <Canvas
+      draw={draw}
+      subscribe={subscribe}
+      zIndex={zIndex}
+      className='pointer-events-none'
+    />
+  )
+}
@@ -0,0 +1,155 @@
+import { useDocumentStore } from '../../stores/document.store'
+import { useInteractionStore } from '../../stores/interaction.store'
+import { useSelectionStore } from '../../stores/selection.store'
+import { useViewportStore } from '../../stores/viewport.store'
+import type { Point } from '../../lib/math/geometry'
+import { getShapeOrientedBounds } from '../../lib/document/shapes'
+import {
+  getHandlePosition,
+  getSelectionFrame,
+  HANDLE_SIZE,
+  HandleType,
+  RESIZE_HANDLES,
+} from '../../lib/document/selection'
+import { getShapeVertices, isEditableShape } from '../../lib/document/vertices'
+import Canvas from './Canvas'
+
+interface Props {
+  zIndex: number
+}
+
+const SELECTION_COLOR = '#3b82f6'
+
+/**
+ * Adds a closed polygon, given in world coordinates, to the current path in screen space.
+ */
+function tracePolygon(ctx: CanvasRenderingContext2D, points: Point[]) {
+  const { worldToScreen } = useViewportStore.getState()
+
+  points.forEach((point, i) => {
+    const { x, y } = worldToScreen(point)
+    if (i === 0) {
+      ctx.moveTo(x, y)
+    } else {
+      ctx.lineTo(x, y)
+    }
+  })
+  ctx.closePath()
+}
+
+function drawSelection(ctx: CanvasRenderingContext2D) {
+  const { zoom, worldToScreen } = useViewportStore.getState()
+  const { previewShapes, frame: transformFrame } =
+    useInteractionStore.getState()
+
+  // While a transform is in progress, its previews stand in for the selected shapes
+  const previews = new Map(previewShapes.map((shape) => [shape.id, shape]))
+  const shapes = useSelectionStore
+    .getState()
+    .getSelectedShapes()
+    .map((shape) => previews.get(shape.id) ?? shape)
+  const { editingId, activeVertex } = useSelectionStore.getState()
+  const editing = shapes.find((shape) => shape.id === editingId)
+
+  // Vertex editing replaces the frame with a handle on each vertex
+  if (editing && isEditableShape(editing)) {
+    ctx.strokeStyle = SELECTION_COLOR
+    ctx.lineWidth = 1
+    getShapeVertices(editing).forEach((vertex, i) => {
+      const { x, y } = worldToScreen(vertex)
+      ctx.fillStyle = i === activeVertex ? SELECTION_COLOR : 'white'
+      ctx.beginPath()
+      ctx.arc(x, y, HANDLE_SIZE / 2, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.stroke()
+    })
+    return
+  }
+
+  const frame = transformFrame ?? getSelectionFrame(shapes)
+
+  if (!frame) return
+
+  ctx.strokeStyle = SELECTION_COLOR
+  ctx.lineWidth = 1
+
+  if (shapes.length > 1) {
+    ctx.beginPath()
+    shapes.forEach((shape) =>
+      tracePolygon(ctx, getShapeOrientedBounds(shape).corners()),
+    )
+    ctx.globalAlpha = 0.5
+    ctx.stroke()
+    ctx.globalAlpha = 1
+  }
+
+  ctx.beginPath()
+  tracePolygon(ctx, frame.corners())
+  ctx.stroke()
+
+  const top = worldToScreen(getHandlePosition(frame, HandleType.Top, zoom))
+  const rotate = worldToScreen(
+    getHandlePosition(frame, HandleType.Rotate, zoom),
+  )
+  ctx.beginPath()
+  ctx.moveTo(top.x, top.y)
+  ctx.lineTo(rotate.x, rotate.y)
+  ctx.stroke()
+
+  ctx.fillStyle = 'white'
+  ctx.beginPath()
+  ctx.arc(rotate.x, rotate.y, HANDLE_SIZE / 2, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.stroke()
+
+  // Resize handles turn with the frame
+  for (const handle of RESIZE_HANDLES) {
+    const { x, y } = worldToScreen(getHandlePosition(frame, handle, zoom))
+    ctx.save()
+    ctx.translate(x, y)
+    ctx.rotate(frame.rotation)
+    ctx.fillRect(-HANDLE_SIZE / 2, -HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE)
+    ctx.strokeRect(-HANDLE_SIZE / 2, -HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE)
+    ctx.restore()
+  }
+}
+
+function draw(ctx: CanvasRenderingContext2D) {
+  // Chrome is drawn in screen space so that it keeps its size at any zoom
+  drawSelection(ctx)
+}
+
+function subscribe(invalidate: () => void) {
+  const unsubscribers = [
+    useViewportStore.subscribe(invalidate),
+    useSelectionStore.subscribe(invalidate),
+    useDocumentStore.subscribe((state, prev) => {
+      if (state.shapes !== prev.shapes) invalidate()
+    }),
+    useInteractionStore.subscribe((state, prev) => {
+      if (
+        state.previewShapes !== prev.previewShapes ||
+        state.frame !== prev.frame
+      ) {
+        invalidate()
+      }
+    }),
+  ]
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+}
+
+/**
+ * Paints editor chrome on top of everything else: the selection frame and its handles,
+ * or the vertex handles of the shape being edited.
+ */
+export default function OverlayLayer({ zIndex }: Props) {
+  return (
+    <Canvas
+      draw={draw}
+      subscribe={subscribe}
+      zIndex={zIndex}
+      className='pointer-events-none'
+    />
+  )
+}
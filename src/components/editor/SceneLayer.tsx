@@ -0,0 +1,40 @@
+import { useDocumentStore } from '../../stores/document.store'
+import { useInteractionStore } from '../../stores/interaction.store'
+import { useViewportStore } from '../../stores/viewport.store'
+import { renderShapes } from '../../lib/render/renderer'
+import Canvas from './Canvas'
+
+interface Props {
+  zIndex: number
+}
+
+function draw(ctx: CanvasRenderingContext2D) {
+  const { offset, zoom, getVisibleRect } = useViewportStore.getState()
+  const { hiddenIds } = useInteractionStore.getState()
+  const shapes = useDocumentStore
+    .getState()
+    .getShapes()
+    .filter((shape) => !hiddenIds.has(shape.id))
+
+  renderShapes(ctx, shapes, { offset, zoom, visibleRect: getVisibleRect() })
+}
+
+function subscribe(invalidate: () => void) {
+  const unsubscribers = [
+    useDocumentStore.subscribe(invalidate),
+    useViewportStore.subscribe(invalidate),
+    useInteractionStore.subscribe((state, prev) => {
+      if (state.hiddenIds !== prev.hiddenIds) invalidate()
+    }),
+  ]
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+}
+
+/**
+ * Paints the committed document. Only repaints when the document, the
+ * viewport, or the set of shapes hidden behind a preview changes.
+ */
+export default function SceneLayer({ zIndex }: Props) {
+  return <Canvas draw={draw} subscribe={subscribe} zIndex={zIndex} />
+}
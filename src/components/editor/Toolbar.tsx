@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react'
+import { useToolsStore } from '../../stores/tools.store'
+import { getTools, ToolType } from '../../lib/tools/tool'
+import { clamp } from '../../lib/math/utils'
+import { zoomToFit, zoomToSelection } from '../../lib/tools/zoom'
+import { cn } from '../../utils/cn'
+
+type Props = React.ComponentProps<'div'>
+
+const MIN_SIDES = 3
+const MAX_SIDES = 32
+
+/**
+ * Edits the number of sides of the regular polygon tool. The typed text is kept as a draft
+ * and only applied, clamped, on blur or Enter, so it can be cleared and retyped freely.
+ */
+function SidesInput() {
+  const sides = useToolsStore((state) => state.options.sides)
+  const setOptions = useToolsStore((state) => state.setOptions)
+  const [draft, setDraft] = useState(String(sides))
+
+  // Follow changes made elsewhere
+  useEffect(() => {
+    setDraft(String(sides))
+  }, [sides])
+
+  function commit() {
+    const value = Math.round(Number(draft))
+
+    if (draft.trim() === '' || !Number.isFinite(value)) {
+      setDraft(String(sides))
+      return
+    }
+
+    const clamped = clamp(value, MIN_SIDES, MAX_SIDES)
+    setOptions({ sides: clamped })
+    setDraft(String(clamped))
+  }
+
+  return (
+    <input
+      type='number'
+      min={MIN_SIDES}
+      max={MAX_SIDES}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') commit()
+      }}
+      className='w-14 px-1 border border-gray-300 rounded'
+    />
+  )
+}
+
+export default function Toolbar({ className, ...props }: Props) {
+  const activeTool = useToolsStore((state) => state.activeTool)
+  const setActiveTool = useToolsStore((state) => state.setActiveTool)
+
+  return (
+    <div
+      role='toolbar'
+      {...props}
+      className={cn(
+        'flex gap-1 p-1 bg-white border border-gray-300 rounded-md shadow w-fit',
+        className,
+      )}
+    >
+      {getTools().map((tool) => (
+        <button
+          key={tool.type}
+          type='button'
+          title={`${tool.label} (${tool.shortcut.toUpperCase()})`}
+          aria-pressed={tool.type === activeTool}
+          onClick={() => setActiveTool(tool.type)}
+          className={cn(
+            'px-3 py-1 text-sm rounded hover:bg-gray-100',
+            tool.type === activeTool &&
+              'bg-blue-500 text-white hover:bg-blue-500',
+          )}
+        >
+          {tool.label}
+        </button>
+      ))}
+      {activeTool === ToolType.RegularPolygon && (
+        <label className='flex items-center gap-2 px-2 text-sm border-l border-gray-300'>
+          Sides
+          <SidesInput />
+        </label>
+      )}
+      <div className='flex gap-1 pl-1 border-l border-gray-300'>
+        <button
+          type='button'
+          title='Zoom to fit (Shift+1)'
+          onClick={zoomToFit}
+          className='px-3 py-1 text-sm rounded hover:bg-gray-100'
+        >
+          Fit
+        </button>
+        <button
+          type='button'
+          title='Zoom to selection (Shift+2)'
+          onClick={zoomToSelection}
+          className='px-3 py-1 text-sm rounded hover:bg-gray-100'
+        >
+          Selection
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,24 +1,44 @@
 import { useViewportStore } from '../../stores/viewport.store'
-import Canvas from './Canvas'
+import SceneLayer from './SceneLayer'
+import InteractionLayer from './InteractionLayer'
+import OverlayLayer from './OverlayLayer'
 import useResizeObserver from '../../hooks/useResizeObserver'
+import usePixelRatio from '../../hooks/usePixelRatio'
+import useTools from '../../hooks/useTools'
+import useViewportControls from '../../hooks/useViewportControls'
+import { cn } from '../../utils/cn'
 
-interface Props extends React.ComponentProps<'div'> {}
+type Props = React.ComponentProps<'div'>
 
-export default function Workspace({}: Props) {
+/** Stacking order of the canvases, from the bottom up. */
+const Layer = {
+  Scene: 0,
+  Interaction: 1,
+  Overlay: 2,
+} as const
+
+export default function Workspace({ className, ...props }: Props) {
   const { observableRef } = useResizeObserver<HTMLDivElement>(
     (width, height) => {
-      const { setViewportSize } = useViewportStore.getState()
-      setViewportSize(width, height)
-      console.log(`Workspace resized to ${width}x${height}`)
+      useViewportStore.getState().setViewportSize(width, height)
     },
   )
+  usePixelRatio()
+  useTools(observableRef)
+  useViewportControls(observableRef)
 
   return (
     <div
       ref={observableRef}
-      className='relative w-full h-full bg-white border border-gray-300 rounded-md shadow'
+      {...props}
+      className={cn(
+        'relative w-full h-full touch-none bg-white border border-gray-300 rounded-md shadow',
+        className,
+      )}
     >
-      <Canvas draw={() => {}} zIndex={0} />
+      <SceneLayer zIndex={Layer.Scene} />
+      <InteractionLayer zIndex={Layer.Interaction} />
+      <OverlayLayer zIndex={Layer.Overlay} />
     </div>
   )
 }
@@ -0,0 +1,28 @@
+import { useEffect } from 'react'
+import { useViewportStore } from '../stores/viewport.store'
+
+/**
+ * Keeps the pixel ratio in the viewport store in sync with the display. Moving the
+ * window between displays changes the pixel ratio without resizing anything, so it
+ * is watched with a media query that matches the current ratio only.
+ */
+export default function usePixelRatio() {
+  useEffect(() => {
+    let query: MediaQueryList | null = null
+
+    function listen() {
+      const pixelRatio = window.devicePixelRatio || 1
+
+      useViewportStore.getState().setPixelRatio(pixelRatio)
+      query?.removeEventListener('change', listen)
+      query = matchMedia(`(resolution: ${pixelRatio}dppx)`)
+      query.addEventListener('change', listen)
+    }
+
+    listen()
+
+    return () => {
+      query?.removeEventListener('change', listen)
+    }
+  }, [])
+}
@@ -4,6 +4,11 @@ export default function useResizeObserver<T extends HTMLElement>(
   callback: (width: number, height: number) => void,
 ) {
   const observableRef = useRef<T | null>(null)
+  const callbackRef = useRef(callback)
+
+  useEffect(() => {
+    callbackRef.current = callback
+  })
 
   useEffect(() => {
     const element = observableRef.current
@@ -12,7 +17,7 @@ export default function useResizeObserver<T extends HTMLElement>(
 
     const observer = new ResizeObserver(() => {
       const { width, height } = element.getBoundingClientRect()
-      callback(width, height)
+      callbackRef.current(width, height)
     })
 
     observer.observe(element)
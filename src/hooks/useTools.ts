@@ -0,0 +1,213 @@
+import { useEffect, type RefObject } from 'react'
+import { useToolsStore } from '../stores/tools.store'
+import { useViewportStore } from '../stores/viewport.store'
+import {
+  getTool,
+  getTools,
+  ToolType,
+  type Tool,
+  type ToolKeyEvent,
+  type ToolPointerEvent,
+} from '../lib/tools/tool'
+import { getElementPoint, isEditableTarget } from '../utils/dom'
+
+/** `PointerEvent.button` of the middle mouse button. */
+const MIDDLE_BUTTON = 1
+
+function toKeyEvent(event: KeyboardEvent): ToolKeyEvent {
+  return {
+    key: event.key,
+    repeat: event.repeat,
+    shiftKey: event.shiftKey,
+    altKey: event.altKey,
+    ctrlKey: event.ctrlKey || event.metaKey,
+  }
+}
+
+/**
+ * Feeds pointer events over an element and keyboard events to the active tool, and
+ * activates tools with their shortcuts. Dragging with the middle button or with space
+ * held pans the view with the hand tool, whatever the active tool.
+ * @param ref The workspace element.
+ */
+export default function useTools<T extends HTMLElement>(
+  ref: RefObject<T | null>,
+) {
+  useEffect(() => {
+    const element = ref.current
+
+    if (!element) return
+
+    /** Whether space is held, which lends pointer events to the hand tool. */
+    let spaceHeld = false
+    /** The tool that got the press in progress, which gets the rest of it. */
+    let pressed: Tool | null = null
+
+    const getActiveTool = (): Tool | null =>
+      getTool(useToolsStore.getState().activeTool)
+
+    /**
+     * Gets the tool pointer events go to.
+     */
+    function getPointerTool(): Tool | null {
+      if (pressed) return pressed
+      return (spaceHeld && getTool(ToolType.Hand)) || getActiveTool()
+    }
+
+    function toPointerEvent(
+      event: PointerEvent | MouseEvent,
+    ): ToolPointerEvent {
+      const screen = getElementPoint(element!, event)
+      return {
+        point: useViewportStore.getState().screenToWorld(screen),
+        screen,
+        button: event.button,
+        pressure: event instanceof PointerEvent ? event.pressure : 0.5,
+        pointerType:
+          event instanceof PointerEvent ? event.pointerType : 'mouse',
+        shiftKey: event.shiftKey,
+        altKey: event.altKey,
+        ctrlKey: event.ctrlKey || event.metaKey,
+      }
+    }
+
+    function updateCursor(tool: Tool | null, event?: ToolPointerEvent) {
+      element!.style.cursor =
+        (event && tool?.getCursor?.(event)) ?? tool?.cursor ?? ''
+    }
+
+    function onPointerDown(event: PointerEvent) {
+      if (pressed) return
+
+      const hand = getTool(ToolType.Hand)
+      const tool =
+        event.button === MIDDLE_BUTTON && hand ? hand : getPointerTool()
+
+      if (!tool) return
+
+      // Keeps the browser from starting its own middle-button autoscroll
+      if (event.button === MIDDLE_BUTTON) event.preventDefault()
+
+      const toolEvent = toPointerEvent(event)
+      pressed = tool
+      tool.onPointerDown?.(toolEvent)
+      updateCursor(tool, toolEvent)
+      element!.setPointerCapture(event.pointerId)
+    }
+
+    function onPointerMove(event: PointerEvent) {
+      const tool = getPointerTool()
+
+      if (!tool) return
+
+      const toolEvent = toPointerEvent(event)
+      tool.onPointerMove?.(toolEvent)
+      updateCursor(tool, toolEvent)
+    }
+
+    function onPointerUp(event: PointerEvent) {
+      const tool = getPointerTool()
+
+      if (!tool) return
+
+      const toolEvent = toPointerEvent(event)
+      tool.onPointerUp?.(toolEvent)
+      pressed = null
+      updateCursor(getPointerTool(), toolEvent)
+      if (element!.hasPointerCapture(event.pointerId)) {
+        element!.releasePointerCapture(event.pointerId)
+      }
+    }
+
+    function onPointerCancel() {
+      getPointerTool()?.cancel?.()
+      pressed = null
+    }
+
+    function onDoubleClick(event: MouseEvent) {
+      getActiveTool()?.onDoubleClick?.(toPointerEvent(event))
+    }
+
+    function onKeyDown(event: KeyboardEvent) {
+      if (isEditableTarget(event.target)) return
+
+      if (event.code === 'Space') {
+        // Also keeps the page from scrolling
+        event.preventDefault()
+        if (!spaceHeld) {
+          spaceHeld = true
+          if (!pressed) updateCursor(getPointerTool())
+        }
+        return
+      }
+
+      const keyEvent = toKeyEvent(event)
+
+      if (getActiveTool()?.onKeyDown?.(keyEvent)) {
+        event.preventDefault()
+        return
+      }
+
+      if (event.ctrlKey || event.altKey || event.metaKey || event.repeat) return
+
+      const key = event.key.toLowerCase()
+      const tool = getTools().find((tool) => tool.shortcut === key)
+      if (tool) {
+        event.preventDefault()
+        useToolsStore.getState().setActiveTool(tool.type)
+      }
+    }
+
+    function onKeyUp(event: KeyboardEvent) {
+      if (event.code === 'Space') {
+        releaseSpace()
+        return
+      }
+
+      if (isEditableTarget(event.target)) return
+
+      if (getActiveTool()?.onKeyUp?.(toKeyEvent(event))) {
+        event.preventDefault()
+      }
+    }
+
+    /**
+     * Ends the space-held panning mode; also on blur, since the key up is lost then.
+     */
+    function releaseSpace() {
+      if (!spaceHeld) return
+
+      spaceHeld = false
+      if (!pressed) updateCursor(getPointerTool())
+    }
+
+    // Tools switched from elsewhere, e.g. the toolbar, start with their own cursor
+    const unsubscribe = useToolsStore.subscribe((state, prev) => {
+      if (state.activeTool === prev.activeTool || pressed) return
+      updateCursor(getPointerTool())
+    })
+    updateCursor(getPointerTool())
+
+    element.addEventListener('pointerdown', onPointerDown)
+    element.addEventListener('pointermove', onPointerMove)
+    element.addEventListener('pointerup', onPointerUp)
+    element.addEventListener('pointercancel', onPointerCancel)
+    element.addEventListener('dblclick', onDoubleClick)
+    window.addEventListener('keydown', onKeyDown)
+    window.addEventListener('keyup', onKeyUp)
+    window.addEventListener('blur', releaseSpace)
+
+    return () => {
+      element.removeEventListener('pointerdown', onPointerDown)
+      element.removeEventListener('pointermove', onPointerMove)
+      element.removeEventListener('pointerup', onPointerUp)
+      element.removeEventListener('pointercancel', onPointerCancel)
+      element.removeEventListener('dblclick', onDoubleClick)
+      window.removeEventListener('keydown', onKeyDown)
+      window.removeEventListener('keyup', onKeyUp)
+      window.removeEventListener('blur', releaseSpace)
+      unsubscribe()
+      getPointerTool()?.cancel?.()
+    }
+  }, [ref])
+}
@@ -0,0 +1,128 @@
+import { useEffect, type RefObject } from 'react'
+import { useViewportStore } from '../stores/viewport.store'
+import {
+  ZOOM_STEP,
+  zoomBy,
+  zoomToFit,
+  zoomToSelection,
+} from '../lib/tools/zoom'
+import { getElementPoint, isEditableTarget } from '../utils/dom'
+
+/** Zoom change per pixel of wheel scrolling, as an exponent. */
+const WHEEL_ZOOM_SPEED = 0.002
+
+/**
+ * Zoom change per pixel of trackpad pinching, which browsers report as a wheel with
+ * ctrl held in much smaller steps than a mouse wheel.
+ */
+const PINCH_ZOOM_SPEED = 0.01
+
+/** Pixels per line, for wheels that scroll by lines. */
+const WHEEL_LINE_HEIGHT = 16
+
+/**
+ * Safari's non-standard pinch event.
+ */
+interface GestureEvent extends UIEvent {
+  /** Distance between the fingers relative to the start of the gesture. */
+  scale: number
+  clientX: number
+  clientY: number
+}
+
+/**
+ * Zooms the view with the wheel and trackpad pinches around the pointer, pans it
+ * horizontally with shift and the wheel, and handles the zoom shortcuts:
+ * Ctrl/Cmd with +, - and 0 to zoom in, out and to 100%, Shift+1 to zoom to fit
+ * and Shift+2 to zoom to the selection.
+ * @param ref The workspace element.
+ */
+export default function useViewportControls<T extends HTMLElement>(
+  ref: RefObject<T | null>,
+) {
+  useEffect(() => {
+    const element = ref.current
+
+    if (!element) return
+
+    /** Zoom when the Safari pinch in progress started. */
+    let gestureStartZoom = 1
+
+    function onWheel(event: WheelEvent) {
+      // Keeps the page from scrolling, and from zooming as a whole on ctrl+wheel
+      event.preventDefault()
+
+      const { zoom, height, setZoom, panBy } = useViewportStore.getState()
+      const unit =
+        event.deltaMode === WheelEvent.DOM_DELTA_LINE
+          ? WHEEL_LINE_HEIGHT
+          : event.deltaMode === WheelEvent.DOM_DELTA_PAGE
+            ? height
+            : 1
+      const dx = event.deltaX * unit
+      const dy = event.deltaY * unit
+
+      if (event.shiftKey) {
+        // Some platforms already turn shift+wheel into horizontal scrolling
+        panBy(-(dx !== 0 ? dx : dy), 0)
+        return
+      }
+
+      const speed = event.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED
+      setZoom(zoom * Math.exp(-dy * speed), getElementPoint(element!, event))
+    }
+
+    function onGestureStart(event: Event) {
+      event.preventDefault()
+      gestureStartZoom = useViewportStore.getState().zoom
+    }
+
+    function onGestureChange(event: Event) {
+      event.preventDefault()
+      const { scale } = event as GestureEvent
+      useViewportStore
+        .getState()
+        .setZoom(
+          gestureStartZoom * scale,
+          getElementPoint(element!, event as GestureEvent),
+        )
+    }
+
+    function onKeyDown(event: KeyboardEvent) {
+      if (isEditableTarget(event.target) || event.altKey) return
+
+      const ctrlKey = event.ctrlKey || event.metaKey
+      let action: (() => void) | null = null
+
+      if (ctrlKey && (event.key === '=' || event.key === '+')) {
+        action = () => zoomBy(ZOOM_STEP)
+      } else if (ctrlKey && event.key === '-') {
+        action = () => zoomBy(1 / ZOOM_STEP)
+      } else if (ctrlKey && event.key === '0') {
+        action = () => zoomBy(1 / useViewportStore.getState().zoom)
+      } else if (!ctrlKey && event.shiftKey && event.code === 'Digit1') {
+        action = zoomToFit
+      } else if (!ctrlKey && event.shiftKey && event.code === 'Digit2') {
+        action = zoomToSelection
+      }
+
+      if (action) {
+        // Keeps the browser from zooming the page
+        event.preventDefault()
+        action()
+      }
+    }
+
+    element.addEventListener('wheel', onWheel, { passive: false })
+    element.addEventListener('gesturestart', onGestureStart)
+    element.addEventListener('gesturechange', onGestureChange)
+    window.addEventListener('keydown', onKeyDown)
+
+    return () => {
+      element.removeEventListener('wheel', onWheel)
+      element.removeEventListener('gesturestart', onGestureStart)
+      element.removeEventListener('gesturechange', onGestureChange)
+      window.removeEventListener('keydown', onKeyDown)
+    }
+  }, [ref])
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { useDocumentStore } from '../../stores/document.store'
+import { MERGE_WINDOW, useHistoryStore } from '../../stores/history.store'
+import { Rectangle } from '../math/geometry'
+import { createUpdateShapesCommand } from './commands'
+import { createShape } from './shapes'
+
+const shape = createShape(new Rectangle(0, 0, 10, 10), { id: 'shape' })
+
+/** Moves the shape one unit to the right, as a command executed in the history. */
+function moveRight(mergeKey?: string) {
+  const { geometry } = useDocumentStore.getState().getShape(shape.id)!
+  useHistoryStore
+    .getState()
+    .executeCommand(
+      createUpdateShapesCommand(
+        [
+          {
+            id: shape.id,
+            patch: { geometry: geometry.clone().translate(1, 0) },
+          },
+        ],
+        'Move shape',
+        mergeKey,
+      ),
+    )
+}
+
+function getX(): number {
+  return (useDocumentStore.getState().getShape(shape.id)!.geometry as Rectangle)
+    .x
+}
+
+describe('createUpdateShapesCommand', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    useDocumentStore.getState().load([shape])
+    useHistoryStore.getState().load([], -1)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('merges consecutive updates with the same merge key into one undo step', () => {
+    moveRight('nudge')
+    moveRight('nudge')
+    moveRight('nudge')
+
+    expect(getX()).toBe(3)
+    expect(useHistoryStore.getState().history).toHaveLength(1)
+
+    useHistoryStore.getState().undo()
+
+    expect(getX()).toBe(0)
+    expect(useHistoryStore.getState().canUndo).toBe(false)
+
+    useHistoryStore.getState().redo()
+
+    expect(getX()).toBe(3)
+  })
+
+  it('never merges updates without a merge key', () => {
+    moveRight()
+    moveRight()
+
+    expect(useHistoryStore.getState().history).toHaveLength(2)
+
+    useHistoryStore.getState().undo()
+
+    expect(getX()).toBe(1)
+  })
+
+  it('does not merge updates with different merge keys', () => {
+    moveRight('nudge')
+    moveRight('other')
+
+    expect(useHistoryStore.getState().history).toHaveLength(2)
+  })
+
+  it('stops merging once the merge window has passed', () => {
+    moveRight('nudge')
+    vi.advanceTimersByTime(MERGE_WINDOW + 1)
+    moveRight('nudge')
+
+    expect(useHistoryStore.getState().history).toHaveLength(2)
+  })
+})
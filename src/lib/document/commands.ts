@@ -0,0 +1,228 @@
+import { useDocumentStore, type ShapePatch } from '../../stores/document.store'
+import {
+  createCommand,
+  registerCommand,
+  type Command,
+} from '../history/commands'
+import {
+  deserializeGeometry,
+  deserializeShape,
+  serializeGeometry,
+  serializeShape,
+  type GeometryData,
+  type ShapeData,
+  type ShapeStyle,
+  type Shape,
+} from './shapes'
+
+export const DocumentCommand = {
+  AddShapes: 'document/add-shapes',
+  RemoveShapes: 'document/remove-shapes',
+  UpdateShapes: 'document/update-shapes',
+  MoveShape: 'document/move-shape',
+} as const
+
+export type DocumentCommand = Enum<typeof DocumentCommand>
+
+type PlacedShape = {
+  shape: ShapeData
+  /** Z-order position of the shape. */
+  index: number
+}
+
+type ShapesPayload = {
+  /** Sorted by ascending index, so that re-inserting in order restores positions. */
+  shapes: PlacedShape[]
+}
+
+type ShapePatchData = {
+  rotation?: number
+  visible?: boolean
+  style?: Partial<ShapeStyle>
+  geometry?: GeometryData
+}
+
+type UpdateShapesPayload = {
+  changes: { id: string; before: ShapePatchData; after: ShapePatchData }[]
+  /** Consecutive updates of the same shapes with the same key are merged. */
+  mergeKey?: string
+}
+
+type MoveShapePayload = {
+  id: string
+  from: number
+  to: number
+}
+
+function plural(count: number, noun: string): string {
+  return count === 1 ? noun : `${count} ${noun}s`
+}
+
+function insertShapes({ shapes }: ShapesPayload) {
+  const { addShape } = useDocumentStore.getState()
+  shapes.forEach(({ shape, index }) => addShape(deserializeShape(shape), index))
+}
+
+function deleteShapes({ shapes }: ShapesPayload) {
+  const { removeShape } = useDocumentStore.getState()
+  shapes.forEach(({ shape }) => removeShape(shape.id))
+}
+
+function applyPatch(id: string, data: ShapePatchData) {
+  const { geometry, ...rest } = data
+  const patch: ShapePatch = geometry
+    ? { ...rest, geometry: deserializeGeometry(geometry) }
+    : rest
+
+  useDocumentStore.getState().updateShape(id, patch)
+}
+
+function hasSameShapes(a: UpdateShapesPayload, b: UpdateShapesPayload) {
+  return (
+    a.changes.length === b.changes.length &&
+    a.changes.every((change, i) => change.id === b.changes[i].id)
+  )
+}
+
+registerCommand<ShapesPayload>(DocumentCommand.AddShapes, {
+  execute: insertShapes,
+  undo: deleteShapes,
+  label: ({ shapes }) => `Add ${plural(shapes.length, 'shape')}`,
+})
+
+registerCommand<ShapesPayload>(DocumentCommand.RemoveShapes, {
+  execute: deleteShapes,
+  undo: insertShapes,
+  label: ({ shapes }) => `Delete ${plural(shapes.length, 'shape')}`,
+})
+
+registerCommand<UpdateShapesPayload>(DocumentCommand.UpdateShapes, {
+  execute: ({ changes }) => {
+    changes.forEach(({ id, after }) => applyPatch(id, after))
+  },
+  undo: ({ changes }) => {
+    changes.forEach(({ id, before }) => applyPatch(id, before))
+  },
+  label: ({ changes }) => `Edit ${plural(changes.length, 'shape')}`,
+  merge: (payload, next) => {
+    if (!payload.mergeKey || payload.mergeKey !== next.mergeKey) return null
+    if (!hasSameShapes(payload, next)) return null
+
+    return {
+      mergeKey: payload.mergeKey,
+      changes: payload.changes.map((change, i) => ({
+        id: change.id,
+        before: { ...next.changes[i].before, ...change.before },
+        after: { ...change.after, ...next.changes[i].after },
+      })),
+    }
+  },
+})
+
+registerCommand<MoveShapePayload>(DocumentCommand.MoveShape, {
+  execute: ({ id, to }) => useDocumentStore.getState().moveShape(id, to),
+  undo: ({ id, from }) => useDocumentStore.getState().moveShape(id, from),
+  label: () => 'Reorder shape',
+})
+
+/**
+ * Creates a command adding shapes on top of the document.
+ * @param shapes The shapes to add, bottom-most first.
+ * @returns A new Command.
+ */
+export function createAddShapesCommand(shapes: Shape[]): Command {
+  const { order } = useDocumentStore.getState()
+
+  return createCommand<ShapesPayload>(DocumentCommand.AddShapes, {
+    shapes: shapes.map((shape, i) => ({
+      shape: serializeShape(shape),
+      index: order.length + i,
+    })),
+  })
+}
+
+/**
+ * Creates a command removing shapes from the document.
+ * Undoing it restores the shapes at their current z-order positions.
+ * @param ids The ids of the shapes to remove. Unknown ids are ignored.
+ * @returns A new Command.
+ */
+export function createRemoveShapesCommand(ids: string[]): Command {
+  const { shapes, order } = useDocumentStore.getState()
+
+  return createCommand<ShapesPayload>(DocumentCommand.RemoveShapes, {
+    shapes: order
+      .map((id, index) => ({ id, index }))
+      .filter(({ id }) => ids.includes(id))
+      .map(({ id, index }) => ({ shape: serializeShape(shapes[id]), index })),
+  })
+}
+
+/**
+ * Creates a command changing properties of shapes.
+ * The previous values are captured from the document when the command is created.
+ * @param updates The patch to apply to each shape. Unknown ids are ignored.
+ * @param label Describes the change, e.g. "Move 3 shapes".
+ * @param mergeKey Opts into merging: consecutive updates of the same shapes with the same
+ * key become one undo step, e.g. arrow key nudges. Updates without a key are never merged.
+ * @returns A new Command.
+ */
+export function createUpdateShapesCommand(
+  updates: { id: string; patch: ShapePatch }[],
+  label?: string,
+  mergeKey?: string,
+): Command {
+  const { shapes } = useDocumentStore.getState()
+
+  const changes = updates
+    .filter(({ id }) => shapes[id])
+    .map(({ id, patch }) => {
+      const shape = shapes[id]
+      const before: ShapePatchData = {}
+      const after: ShapePatchData = {}
+
+      if (patch.rotation !== undefined) {
+        before.rotation = shape.rotation
+        after.rotation = patch.rotation
+      }
+      if (patch.visible !== undefined) {
+        before.visible = shape.visible
+        after.visible = patch.visible
+      }
+      if (patch.style) {
+        const keys = Object.keys(patch.style) as (keyof ShapeStyle)[]
+        before.style = Object.fromEntries(
+          keys.map((key) => [key, shape.style[key]]),
+        )
+        after.style = { ...patch.style }
+      }
+      if (patch.geometry) {
+        before.geometry = serializeGeometry(shape.geometry)
+        after.geometry = serializeGeometry(patch.geometry)
+      }
+
+      return { id, before, after }
+    })
+
+  return createCommand<UpdateShapesPayload>(
+    DocumentCommand.UpdateShapes,
+    mergeKey ? { changes, mergeKey } : { changes },
+    label,
+  )
+}
+
+/**
+ * Creates a command moving a shape to a new z-order position.
+ * @param id The id of the shape.
+ * @param index The new position, where 0 is the bottom.
+ * @returns A new Command.
+ */
+export function createMoveShapeCommand(id: string, index: number): Command {
+  const { order } = useDocumentStore.getState()
+
+  return createCommand<MoveShapePayload>(DocumentCommand.MoveShape, {
+    id,
+    from: order.indexOf(id),
+    to: index,
+  })
+}
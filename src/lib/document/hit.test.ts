@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { Circle, Ellipse, Point, Polygon, Rectangle } from '../math/geometry'
+import { hitTestRect, MarqueeMode } from './hit'
+import { createShape, type ShapeGeometry } from './shapes'
+
+/** Geometries spanning [0, 100]², with an empty interior around (50, 50). */
+const geometries: [string, ShapeGeometry][] = [
+  ['rectangle', new Rectangle(0, 0, 100, 100)],
+  ['circle', new Circle(new Point(50, 50), 50)],
+  ['ellipse', new Ellipse(new Point(50, 50), 50, 40)],
+  [
+    'polygon',
+    new Polygon([
+      new Point(0, 0),
+      new Point(100, 0),
+      new Point(100, 100),
+      new Point(0, 100),
+    ]).close(),
+  ],
+]
+
+/** A marquee inside the interior, clear of every outline. */
+const inside = new Rectangle(40, 40, 20, 20)
+
+/** A marquee across the left side of every outline. */
+const across = new Rectangle(-10, 45, 20, 10)
+
+describe('hitTestRect', () => {
+  describe.each(geometries)('an unfilled %s', (_, geometry) => {
+    const shape = createShape(geometry, { style: { fill: null } })
+
+    it('is not touched by a marquee inside its interior', () => {
+      expect(hitTestRect(shape, inside, MarqueeMode.Intersect)).toBe(false)
+    })
+
+    it('is touched by a marquee crossing its outline', () => {
+      expect(hitTestRect(shape, across, MarqueeMode.Intersect)).toBe(true)
+    })
+
+    it('is touched by a marquee crossing its rotated outline', () => {
+      const rotated = { ...shape, rotation: Math.PI / 4 }
+
+      expect(hitTestRect(rotated, inside, MarqueeMode.Intersect)).toBe(false)
+      expect(
+        hitTestRect(
+          rotated,
+          new Rectangle(45, -25, 10, 30),
+          MarqueeMode.Intersect,
+        ),
+      ).toBe(true)
+    })
+  })
+
+  it('touches an ellipse without height by the segment it is drawn as', () => {
+    const shape = createShape(new Ellipse(new Point(50, 0), 50, 0))
+
+    expect(
+      hitTestRect(shape, new Rectangle(45, -10, 10, 20), MarqueeMode.Intersect),
+    ).toBe(true)
+    expect(
+      hitTestRect(shape, new Rectangle(45, 10, 10, 20), MarqueeMode.Intersect),
+    ).toBe(false)
+  })
+
+  describe.each(geometries)('a filled %s', (_, geometry) => {
+    const shape = createShape(geometry)
+
+    it('is touched by a marquee inside its interior', () => {
+      expect(hitTestRect(shape, inside, MarqueeMode.Intersect)).toBe(true)
+    })
+
+    it('is not picked by a marquee it only touches in contain mode', () => {
+      expect(hitTestRect(shape, inside, MarqueeMode.Contain)).toBe(false)
+    })
+  })
+})
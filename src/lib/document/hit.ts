@@ -0,0 +1,251 @@
+import { useDocumentStore } from '../../stores/document.store'
+import {
+  Circle,
+  Ellipse,
+  Line,
+  OrientedRectangle,
+  Point,
+  Polygon,
+  Rectangle,
+} from '../math/geometry'
+import { sceneIndex } from './spatial'
+import {
+  getShapeBounds,
+  getShapeCenter,
+  getShapeTransform,
+  type Shape,
+} from './shapes'
+
+export const HitType = {
+  None: 'none',
+  Fill: 'fill',
+  Stroke: 'stroke',
+} as const
+
+export type HitType = Enum<typeof HitType>
+
+/**
+ * Which shapes a selection rectangle picks.
+ */
+export const MarqueeMode = {
+  /** Shapes entirely inside the rectangle. */
+  Contain: 'contain',
+  /** Shapes the rectangle touches. */
+  Intersect: 'intersect',
+} as const
+
+export type MarqueeMode = Enum<typeof MarqueeMode>
+
+/**
+ * A shape under a point, and which part of it was hit.
+ */
+export interface ShapeHit {
+  shape: Shape
+  type: typeof HitType.Fill | typeof HitType.Stroke
+}
+
+/** How far from a shape a pointer still hits it, in CSS pixels. */
+export const HIT_TOLERANCE = 4
+
+/**
+ * Gets the segments that are stroked when a geometry is drawn.
+ * An open polygon is filled as if closed, but its closing edge isn't stroked.
+ */
+function getOutline(geometry: Rectangle | Line | Polygon): Line[] {
+  if (geometry instanceof Line) return [geometry]
+  if (geometry instanceof Rectangle) {
+    return Polygon.fromRectangle(geometry).getEdges()
+  }
+
+  const edges = geometry.getEdges()
+  return geometry.isClosed() ? edges : edges.slice(0, -1)
+}
+
+/**
+ * Finds which part of a shape is under a point.
+ * A point within half the stroke width of the outline, plus the tolerance, hits the stroke;
+ * a point inside the filled area, or near its edge when there's no stroke, hits the fill.
+ * Unpainted parts (no fill color, no stroke color or zero width) can't be hit.
+ * @param shape The shape.
+ * @param point The point in world coordinates.
+ * @param tolerance How far from the shape the point may be, in world units.
+ * @returns The part that was hit, or HitType.None.
+ */
+export function hitTest(
+  shape: Shape,
+  point: Point,
+  tolerance: number,
+): HitType {
+  if (!shape.visible) return HitType.None
+
+  const { geometry, style } = shape
+  // Rotation preserves distances, so the tolerance holds in the shape's own space
+  const local =
+    shape.rotation === 0
+      ? point
+      : point.clone().transform(getShapeTransform(shape).invert())
+
+  const distance =
+    geometry instanceof Circle
+      ? Math.abs(geometry.center.distanceTo(local) - geometry.radius)
+      : geometry instanceof Ellipse
+        ? geometry.distanceToPoint(local)
+        : Math.min(
+            ...getOutline(geometry).map((edge) => edge.distanceToPoint(local)),
+          )
+
+  const hasStroke = !!style.stroke && style.strokeWidth > 0
+  const hasFill = !!style.fill && !(geometry instanceof Line)
+
+  if (hasStroke && distance <= style.strokeWidth / 2 + tolerance) {
+    return HitType.Stroke
+  }
+  if (!hasFill) return HitType.None
+
+  const inside =
+    geometry instanceof Rectangle
+      ? geometry.clone().normalize().contains(local)
+      : geometry.contains(local)
+
+  return inside || distance <= tolerance ? HitType.Fill : HitType.None
+}
+
+let cachedOrder: string[] | null = null
+let cachedPositions = new Map<string, number>()
+
+/**
+ * Gets the ids of shapes whose indexed bounds are near a point, top-most first.
+ * The z-order positions are recomputed only when the order changes.
+ */
+function getCandidates(point: Point, tolerance: number): string[] {
+  const { shapes, order } = useDocumentStore.getState()
+
+  if (order !== cachedOrder) {
+    cachedOrder = order
+    cachedPositions = new Map(order.map((id, index) => [id, index]))
+  }
+
+  return sceneIndex
+    .queryPoint(point, tolerance)
+    .filter((id) => shapes[id])
+    .sort((a, b) => cachedPositions.get(b)! - cachedPositions.get(a)!)
+}
+
+/**
+ * Finds every shape under a point, using the scene index to skip distant shapes.
+ * @param point The point in world coordinates.
+ * @param zoom The current zoom, to convert the tolerance to world units.
+ * @param tolerance How far from a shape the point may be, in CSS pixels. Defaults to HIT_TOLERANCE.
+ * @returns The hits in z-order, from the top-most to the bottom-most.
+ */
+export function hitTestShapes(
+  point: Point,
+  zoom: number,
+  tolerance: number = HIT_TOLERANCE,
+): ShapeHit[] {
+  const { shapes } = useDocumentStore.getState()
+  const worldTolerance = tolerance / zoom
+
+  return getCandidates(point, worldTolerance).flatMap((id) => {
+    const type = hitTest(shapes[id], point, worldTolerance)
+    return type === HitType.None ? [] : [{ shape: shapes[id], type }]
+  })
+}
+
+/**
+ * Finds the top-most shape under a point.
+ * @param point The point in world coordinates.
+ * @param zoom The current zoom, to convert the tolerance to world units.
+ * @param tolerance How far from a shape the point may be, in CSS pixels. Defaults to HIT_TOLERANCE.
+ * @returns The hit, or null if no shape is under the point.
+ */
+export function getShapeAt(
+  point: Point,
+  zoom: number,
+  tolerance: number = HIT_TOLERANCE,
+): ShapeHit | null {
+  const { shapes } = useDocumentStore.getState()
+  const worldTolerance = tolerance / zoom
+
+  for (const id of getCandidates(point, worldTolerance)) {
+    const type = hitTest(shapes[id], point, worldTolerance)
+    if (type !== HitType.None) return { shape: shapes[id], type }
+  }
+  return null
+}
+
+/**
+ * Checks whether a selection rectangle picks a shape.
+ * Touching is tested against the exact geometry, so the empty corners of a rotated or round
+ * shape's bounding box don't count, while a rectangle inside a shape's area does. Lines, open
+ * polygons and unfilled shapes have no area to touch, only their outline.
+ * @param shape The shape.
+ * @param rect The rectangle in world coordinates, with non-negative width and height.
+ * @param mode Whether the shape must be contained or only touched.
+ * @returns True if the rectangle picks the shape.
+ */
+export function hitTestRect(
+  shape: Shape,
+  rect: Rectangle,
+  mode: MarqueeMode,
+): boolean {
+  if (!shape.visible) return false
+  if (rect.contains(getShapeBounds(shape))) return true
+  if (mode === MarqueeMode.Contain) return false
+
+  // Test in the shape's own space, where the rectangle turns into an oriented one
+  const center = getShapeCenter(shape)
+  const local = OrientedRectangle.fromRectangle(rect).rotate(
+    -shape.rotation,
+    center,
+  )
+  const { geometry, style } = shape
+  const sides = local.toPolygon().getEdges()
+
+  // Only the outline of lines, open polygons and unfilled shapes can be touched, not their
+  // area, as for a click
+  if (
+    !style.fill ||
+    geometry instanceof Line ||
+    (geometry instanceof Polygon && !geometry.isClosed())
+  ) {
+    if (geometry instanceof Circle || geometry instanceof Ellipse) {
+      const curve =
+        geometry instanceof Circle ? Ellipse.fromCircle(geometry) : geometry
+      return (
+        local.contains(curve.pointAt(0)) ||
+        sides.some((side) => curve.intersectLine(side).length > 0)
+      )
+    }
+    return getOutline(geometry).some(
+      (edge) =>
+        local.contains(edge.start) ||
+        sides.some((side) => side.intersects(edge) !== null),
+    )
+  }
+  if (geometry instanceof Ellipse) {
+    return (
+      local.contains(geometry.center) ||
+      sides.some((side) => geometry.intersects(side))
+    )
+  }
+  return local.intersects(
+    geometry instanceof Rectangle ? geometry.clone().normalize() : geometry,
+  )
+}
+
+/**
+ * Finds every shape picked by a selection rectangle, using the scene index to skip distant shapes.
+ * @param rect The rectangle in world coordinates, with non-negative width and height.
+ * @param mode Whether shapes must be contained or only touched.
+ * @returns The picked shapes in z-order, from the bottom-most to the top-most.
+ */
+export function getShapesInRect(rect: Rectangle, mode: MarqueeMode): Shape[] {
+  const { shapes, order } = useDocumentStore.getState()
+  const candidates = new Set(sceneIndex.queryRect(rect))
+
+  return order
+    .filter((id) => candidates.has(id))
+    .map((id) => shapes[id])
+    .filter((shape) => hitTestRect(shape, rect, mode))
+}
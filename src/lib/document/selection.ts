@@ -0,0 +1,357 @@
+import {
+  Circle,
+  Ellipse,
+  Line,
+  Matrix,
+  OrientedRectangle,
+  Point,
+  Polygon,
+} from '../math/geometry'
+import { HIT_TOLERANCE } from './hit'
+import {
+  getShapeCenter,
+  getShapeOrientedBounds,
+  getShapesBounds,
+  getShapeTransform,
+  type Shape,
+} from './shapes'
+
+export const HandleType = {
+  TopLeft: 'top-left',
+  Top: 'top',
+  TopRight: 'top-right',
+  Right: 'right',
+  BottomRight: 'bottom-right',
+  Bottom: 'bottom',
+  BottomLeft: 'bottom-left',
+  Left: 'left',
+  Rotate: 'rotate',
+} as const
+
+export type HandleType = Enum<typeof HandleType>
+
+export type ResizeHandle = Exclude<HandleType, typeof HandleType.Rotate>
+
+/** Side length of the square resize handles, in CSS pixels. */
+export const HANDLE_SIZE = 8
+
+/** Distance from the top edge of the selection frame to the rotation handle, in CSS pixels. */
+export const ROTATION_HANDLE_OFFSET = 24
+
+/** Step that rotations snap to while shift is held. */
+export const ROTATION_SNAP_ANGLE = Math.PI / 12
+
+/**
+ * Where each resize handle sits on the frame, in half widths and half heights from its center.
+ * Corners come first, so they win over edges when a small frame makes handles overlap.
+ */
+const HANDLE_DIRECTIONS: Record<ResizeHandle, [number, number]> = {
+  [HandleType.TopLeft]: [-1, -1],
+  [HandleType.TopRight]: [1, -1],
+  [HandleType.BottomRight]: [1, 1],
+  [HandleType.BottomLeft]: [-1, 1],
+  [HandleType.Top]: [0, -1],
+  [HandleType.Right]: [1, 0],
+  [HandleType.Bottom]: [0, 1],
+  [HandleType.Left]: [-1, 0],
+}
+
+export const RESIZE_HANDLES = Object.keys(HANDLE_DIRECTIONS) as ResizeHandle[]
+
+export interface ResizeOptions {
+  /** Scales both axes by the same amount. */
+  keepAspectRatio?: boolean
+  /** Keeps the center of the frame in place instead of the opposite handle. */
+  fromCenter?: boolean
+}
+
+/**
+ * A scaling along the axes of a selection frame, as computed by `getResizeTransform`.
+ */
+export interface ResizeTransform {
+  scaleX: number
+  scaleY: number
+  /** The world point that stays in place. */
+  origin: Point
+  /** The rotation of the axes the scaling is along, in radians. */
+  rotation: number
+}
+
+/**
+ * Wraps an angle into [-PI, PI).
+ */
+function wrapRotation(angle: number): number {
+  const fullTurn = Math.PI * 2
+  return ((((angle + Math.PI) % fullTurn) + fullTurn) % fullTurn) - Math.PI
+}
+
+/**
+ * Gets the frame the handles of a selection are drawn on. A single shape is framed by its
+ * rotated bounds; several shapes by the union of their bounding boxes.
+ * @param shapes The selected shapes.
+ * @returns A new OrientedRectangle, or null if there are no shapes.
+ */
+export function getSelectionFrame(shapes: Shape[]): OrientedRectangle | null {
+  if (shapes.length === 1) return getShapeOrientedBounds(shapes[0])
+
+  const bounds = getShapesBounds(shapes)
+  return bounds && OrientedRectangle.fromRectangle(bounds)
+}
+
+/**
+ * Gets the position of a handle of a selection frame.
+ * @param frame The selection frame.
+ * @param handle The handle.
+ * @param zoom The current zoom, to keep the rotation handle at a fixed distance on screen.
+ * @returns A new Point in world coordinates.
+ */
+export function getHandlePosition(
+  frame: OrientedRectangle,
+  handle: HandleType,
+  zoom: number,
+): Point {
+  if (handle === HandleType.Rotate) {
+    return frame.toWorld(
+      new Point(0, -frame.height / 2 - ROTATION_HANDLE_OFFSET / zoom),
+    )
+  }
+
+  const [dx, dy] = HANDLE_DIRECTIONS[handle]
+  return frame.toWorld(
+    new Point((dx * frame.width) / 2, (dy * frame.height) / 2),
+  )
+}
+
+/**
+ * Finds the handle of a selection frame under a point.
+ * @param frame The selection frame.
+ * @param point The point in world coordinates.
+ * @param zoom The current zoom, to convert the handle size to world units.
+ * @returns The handle, or null if the point isn't on a handle.
+ */
+export function getHandleAt(
+  frame: OrientedRectangle,
+  point: Point,
+  zoom: number,
+): HandleType | null {
+  const reach = (HANDLE_SIZE / 2 + HIT_TOLERANCE) / zoom
+
+  // Handles are squares aligned with the frame, so compare in its local space
+  const local = frame.toLocal(point)
+  const isNear = (handle: HandleType) => {
+    const position = frame.toLocal(getHandlePosition(frame, handle, zoom))
+    return (
+      Math.abs(local.x - position.x) <= reach &&
+      Math.abs(local.y - position.y) <= reach
+    )
+  }
+
+  return (
+    RESIZE_HANDLES.find(isNear) ??
+    (isNear(HandleType.Rotate) ? HandleType.Rotate : null)
+  )
+}
+
+/**
+ * Works out how dragging a resize handle to a point scales a selection frame.
+ * Dragging past the opposite side flips the frame, giving negative scales.
+ * @param frame The selection frame when the drag started.
+ * @param handle The dragged handle.
+ * @param point The pointer position in world coordinates.
+ * @param options Modifiers of the resize.
+ * @returns The scaling to apply to the frame and the selected shapes.
+ */
+export function getResizeTransform(
+  frame: OrientedRectangle,
+  handle: ResizeHandle,
+  point: Point,
+  options: ResizeOptions = {},
+): ResizeTransform {
+  const [dx, dy] = HANDLE_DIRECTIONS[handle]
+  const halfWidth = frame.width / 2
+  const halfHeight = frame.height / 2
+  const anchor = options.fromCenter
+    ? Point.zero
+    : new Point(-dx * halfWidth, -dy * halfHeight)
+  const local = frame.toLocal(point)
+
+  // An edge handle leaves the other axis alone, as does an axis the frame has no extent along
+  const scaleAlong = (
+    direction: number,
+    half: number,
+    anchorValue: number,
+    pointerValue: number,
+  ) => {
+    const extent = direction * half - anchorValue
+    return extent === 0 ? 1 : (pointerValue - anchorValue) / extent
+  }
+
+  let scaleX = dx === 0 ? 1 : scaleAlong(dx, halfWidth, anchor.x, local.x)
+  let scaleY = dy === 0 ? 1 : scaleAlong(dy, halfHeight, anchor.y, local.y)
+
+  if (options.keepAspectRatio) {
+    if (dx === 0) {
+      scaleX = Math.abs(scaleY)
+    } else if (dy === 0) {
+      scaleY = Math.abs(scaleX)
+    } else {
+      const scale = Math.max(Math.abs(scaleX), Math.abs(scaleY))
+      scaleX = scaleX < 0 ? -scale : scale
+      scaleY = scaleY < 0 ? -scale : scale
+    }
+  }
+
+  return {
+    scaleX,
+    scaleY,
+    origin: frame.toWorld(anchor),
+    rotation: frame.rotation,
+  }
+}
+
+/**
+ * Gets the world transform of a resize.
+ * @param resize The resize.
+ * @returns A new Matrix.
+ */
+export function getResizeMatrix(resize: ResizeTransform): Matrix {
+  const { scaleX, scaleY, origin, rotation } = resize
+  return Matrix.rotation(rotation, origin)
+    .multiply(Matrix.scaling(scaleX, scaleY, origin))
+    .multiply(Matrix.rotation(-rotation, origin))
+}
+
+/**
+ * Applies a resize to a selection frame.
+ * @param frame The selection frame.
+ * @param resize The resize, computed for this frame.
+ * @returns A new OrientedRectangle with non-negative width and height.
+ */
+export function resizeFrame(
+  frame: OrientedRectangle,
+  resize: ResizeTransform,
+): OrientedRectangle {
+  return new OrientedRectangle(
+    getResizeMatrix(resize).applyToPoint(frame.center),
+    frame.width * Math.abs(resize.scaleX),
+    frame.height * Math.abs(resize.scaleY),
+    frame.rotation,
+  )
+}
+
+/**
+ * Moves shapes.
+ * @param shapes The shapes.
+ * @param dx The distance to move along the x-axis.
+ * @param dy The distance to move along the y-axis.
+ * @returns New shape records.
+ */
+export function moveShapes(shapes: Shape[], dx: number, dy: number): Shape[] {
+  return shapes.map(
+    (shape) =>
+      ({
+        ...shape,
+        geometry: shape.geometry.clone().translate(dx, dy),
+      }) as Shape,
+  )
+}
+
+/**
+ * Rotates shapes around a common point. Each shape turns around its own center by the
+ * angle, and its center turns around the given point.
+ * @param shapes The shapes.
+ * @param angle The angle in radians.
+ * @param origin The point to rotate around.
+ * @returns New shape records.
+ */
+export function rotateShapes(
+  shapes: Shape[],
+  angle: number,
+  origin: Point,
+): Shape[] {
+  return shapes.map((shape) => {
+    const center = getShapeCenter(shape)
+    const moved = center.clone().subtract(origin).rotate(angle).add(origin)
+
+    return {
+      ...shape,
+      rotation: wrapRotation(shape.rotation + angle),
+      geometry: shape.geometry
+        .clone()
+        .translate(moved.x - center.x, moved.y - center.y),
+    } as Shape
+  })
+}
+
+/**
+ * Resizes shapes along the axes of a selection frame.
+ * Shapes whose rotation matches the frame, up to quarter turns, are scaled exactly.
+ * Others would be skewed: ellipses, lines and polygons take the skew by having their rotation
+ * baked into their geometry, while rectangles and circles are scaled by how much their own axes
+ * stretch.
+ * Circles stay circles, scaled along the axis whose scale changes their size the most.
+ * @param shapes The shapes.
+ * @param resize The resize.
+ * @returns New shape records.
+ */
+export function resizeShapes(
+  shapes: Shape[],
+  resize: ResizeTransform,
+): Shape[] {
+  const matrix = getResizeMatrix(resize)
+
+  return shapes.map((shape) => {
+    const quarterTurns = (shape.rotation - resize.rotation) / (Math.PI / 2)
+    const aligned = Math.abs(quarterTurns - Math.round(quarterTurns)) < 1e-9
+    let scaleX: number
+    let scaleY: number
+
+    if (aligned) {
+      ;[scaleX, scaleY] =
+        Math.round(quarterTurns) % 2 === 0
+          ? [resize.scaleX, resize.scaleY]
+          : [resize.scaleY, resize.scaleX]
+    } else if (
+      shape.geometry instanceof Ellipse ||
+      shape.geometry instanceof Line ||
+      shape.geometry instanceof Polygon
+    ) {
+      return {
+        ...shape,
+        rotation: 0,
+        geometry: shape.geometry
+          .clone()
+          .transform(matrix.clone().multiply(getShapeTransform(shape))),
+      } as Shape
+    } else {
+      const [axisX, axisY] = getShapeOrientedBounds(shape).axes()
+      scaleX = matrix.applyToVector(axisX).length()
+      scaleY = matrix.applyToVector(axisY).length()
+    }
+
+    // Scale in the shape's own frame around its center, then carry the center along
+    const center = getShapeCenter(shape)
+    const moved = matrix.applyToPoint(center)
+
+    if (shape.geometry instanceof Circle) {
+      // A circle can't take two different scales, so it takes the one that changes its size
+      // the most: the dragged axis's for an edge handle, where the other scale is 1
+      const [x, y] = [Math.abs(scaleX), Math.abs(scaleY)]
+      const geometry = shape.geometry
+        .clone()
+        .translate(moved.x - center.x, moved.y - center.y)
+      geometry.radius *= Math.abs(Math.log(x)) >= Math.abs(Math.log(y)) ? x : y
+      return { ...shape, geometry } as Shape
+    }
+
+    const local = Matrix.translation(
+      moved.x - center.x,
+      moved.y - center.y,
+    ).multiply(Matrix.scaling(scaleX, scaleY, center))
+
+    return {
+      ...shape,
+      geometry: shape.geometry.clone().transform(local),
+    } as Shape
+  })
+}
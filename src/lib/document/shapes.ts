@@ -0,0 +1,322 @@
+import {
+  Circle,
+  Ellipse,
+  GeometryType,
+  Line,
+  Matrix,
+  OrientedRectangle,
+  Point,
+  Polygon,
+  Rectangle,
+  type CircleJSON,
+  type EllipseJSON,
+  type LineJSON,
+  type PolygonJSON,
+  type RectangleJSON,
+} from '../math/geometry'
+
+export const ShapeType = {
+  Rectangle: 'rectangle',
+  Circle: 'circle',
+  Ellipse: 'ellipse',
+  Line: 'line',
+  Polygon: 'polygon',
+} as const
+
+export type ShapeType = Enum<typeof ShapeType>
+
+/**
+ * Visual properties shared by every shape.
+ */
+export interface ShapeStyle {
+  /** Fill color, or null for no fill. */
+  fill: string | null
+  /** Stroke color, or null for no stroke. */
+  stroke: string | null
+  /** Stroke width in world units. */
+  strokeWidth: number
+  /** Dash pattern in world units, empty for a solid stroke. */
+  dash: number[]
+  /** Opacity between 0 and 1. */
+  opacity: number
+}
+
+interface BaseShape {
+  id: string
+  /** Rotation in radians around the center of the geometry's bounding box. */
+  rotation: number
+  visible: boolean
+  style: ShapeStyle
+}
+
+export interface RectangleShape extends BaseShape {
+  type: typeof ShapeType.Rectangle
+  geometry: Rectangle
+}
+
+export interface CircleShape extends BaseShape {
+  type: typeof ShapeType.Circle
+  geometry: Circle
+}
+
+export interface EllipseShape extends BaseShape {
+  type: typeof ShapeType.Ellipse
+  geometry: Ellipse
+}
+
+export interface LineShape extends BaseShape {
+  type: typeof ShapeType.Line
+  geometry: Line
+}
+
+export interface PolygonShape extends BaseShape {
+  type: typeof ShapeType.Polygon
+  geometry: Polygon
+}
+
+/**
+ * A shape record stored in the document.
+ * Records and their geometry are treated as immutable: clone the geometry
+ * before changing it and write it back through the document store.
+ */
+export type Shape =
+  RectangleShape | CircleShape | EllipseShape | LineShape | PolygonShape
+
+export type ShapeGeometry = Shape['geometry']
+
+export type ShapeOptions = Partial<Omit<BaseShape, 'id' | 'style'>> & {
+  id?: string
+  style?: Partial<ShapeStyle>
+}
+
+export const DEFAULT_STYLE: ShapeStyle = {
+  fill: '#d1d5db',
+  stroke: '#374151',
+  strokeWidth: 1,
+  dash: [],
+  opacity: 1,
+}
+
+/**
+ * Generates a unique shape id.
+ * @returns A new id.
+ */
+export function createShapeId(): string {
+  return crypto.randomUUID()
+}
+
+/**
+ * Determines the shape type matching a geometry primitive.
+ * @param geometry The geometry primitive.
+ * @returns The shape type.
+ * @throws Error if the geometry is not a supported primitive.
+ */
+export function getShapeType(geometry: ShapeGeometry): ShapeType {
+  if (geometry instanceof Rectangle) return ShapeType.Rectangle
+  if (geometry instanceof Circle) return ShapeType.Circle
+  if (geometry instanceof Ellipse) return ShapeType.Ellipse
+  if (geometry instanceof Line) return ShapeType.Line
+  if (geometry instanceof Polygon) return ShapeType.Polygon
+  throw new Error('Unsupported shape geometry')
+}
+
+/**
+ * Creates a shape record wrapping a geometry primitive.
+ * @param geometry The geometry of the shape. It is not cloned.
+ * @param options Optional id, rotation, visibility and style overrides.
+ * @returns A new shape record.
+ */
+export function createShape(
+  geometry: Rectangle,
+  options?: ShapeOptions,
+): RectangleShape
+export function createShape(
+  geometry: Circle,
+  options?: ShapeOptions,
+): CircleShape
+export function createShape(
+  geometry: Ellipse,
+  options?: ShapeOptions,
+): EllipseShape
+export function createShape(geometry: Line, options?: ShapeOptions): LineShape
+export function createShape(
+  geometry: Polygon,
+  options?: ShapeOptions,
+): PolygonShape
+export function createShape(
+  geometry: ShapeGeometry,
+  options?: ShapeOptions,
+): Shape
+export function createShape(
+  geometry: ShapeGeometry,
+  options: ShapeOptions = {},
+): Shape {
+  return {
+    id: options.id ?? createShapeId(),
+    type: getShapeType(geometry),
+    geometry,
+    rotation: options.rotation ?? 0,
+    visible: options.visible ?? true,
+    style: { ...DEFAULT_STYLE, ...options.style },
+  } as Shape
+}
+
+/**
+ * Creates a deep copy of a shape record, including its geometry.
+ * @param shape The shape to clone.
+ * @returns A new shape record with the same id.
+ */
+export function cloneShape<T extends Shape>(shape: T): T {
+  return {
+    ...shape,
+    geometry: shape.geometry.clone(),
+    style: { ...shape.style, dash: [...shape.style.dash] },
+  }
+}
+
+/**
+ * Calculates the axis-aligned bounding box of a shape's geometry, ignoring rotation.
+ * @param shape The shape.
+ * @returns A new Rectangle with non-negative width and height.
+ */
+export function getGeometryBounds(shape: Shape): Rectangle {
+  if (shape.geometry instanceof Rectangle) {
+    return shape.geometry.clone().normalize()
+  }
+  return shape.geometry.boundingBox()
+}
+
+/**
+ * Gets the point a shape rotates around: the center of its unrotated bounds.
+ * @param shape The shape.
+ * @returns A new Point.
+ */
+export function getShapeCenter(shape: Shape): Point {
+  return getGeometryBounds(shape).center()
+}
+
+/**
+ * Gets the rotated bounds of a shape: its unrotated bounds turned by the shape's rotation.
+ * @param shape The shape.
+ * @returns A new OrientedRectangle.
+ */
+export function getShapeOrientedBounds(shape: Shape): OrientedRectangle {
+  return OrientedRectangle.fromRectangle(
+    getGeometryBounds(shape),
+    shape.rotation,
+  )
+}
+
+/**
+ * Gets the transform from a shape's geometry to world coordinates: its rotation around its center.
+ * @param shape The shape.
+ * @returns A new Matrix.
+ */
+export function getShapeTransform(shape: Shape): Matrix {
+  return Matrix.rotation(shape.rotation, getShapeCenter(shape))
+}
+
+/**
+ * Calculates the axis-aligned bounding box of a shape, taking rotation into account.
+ * Stroke width is not included.
+ * @param shape The shape.
+ * @returns A new Rectangle with non-negative width and height.
+ */
+export function getShapeBounds(shape: Shape): Rectangle {
+  // A rotated circle still fits its unrotated box
+  if (shape.rotation === 0 || shape.geometry instanceof Circle) {
+    return getGeometryBounds(shape)
+  }
+
+  // Rectangle.transform already yields the bounding box of the transformed corners
+  const transformed = shape.geometry.clone().transform(getShapeTransform(shape))
+  return transformed instanceof Rectangle
+    ? transformed
+    : transformed.boundingBox()
+}
+
+/**
+ * Calculates the axis-aligned bounding box of several shapes: the union of their bounds.
+ * @param shapes The shapes.
+ * @returns A new Rectangle, or null if there are no shapes.
+ */
+export function getShapesBounds(shapes: Shape[]): Rectangle | null {
+  if (shapes.length === 0) return null
+
+  return shapes
+    .map(getShapeBounds)
+    .reduce((union, rect) => Rectangle.union(union, rect))
+}
+
+/**
+ * The geometry of a shape as plain JSON, as produced by its `toJSON` method.
+ */
+export type GeometryData =
+  RectangleJSON | CircleJSON | EllipseJSON | LineJSON | PolygonJSON
+
+/**
+ * A shape record as plain JSON, e.g. for storage or command payloads.
+ */
+export type ShapeData = BaseShape & {
+  type: ShapeType
+  geometry: GeometryData
+}
+
+/**
+ * Converts a geometry primitive to plain JSON.
+ * @param geometry The geometry.
+ * @returns The JSON representation.
+ */
+export function serializeGeometry(geometry: ShapeGeometry): GeometryData {
+  return geometry.toJSON()
+}
+
+/**
+ * Recreates a geometry primitive from plain JSON.
+ * @param data The output of `serializeGeometry`.
+ * @returns A new geometry primitive.
+ */
+export function deserializeGeometry(data: GeometryData): ShapeGeometry {
+  switch (data.type) {
+    case GeometryType.Rectangle:
+      return Rectangle.fromJSON(data)
+    case GeometryType.Circle:
+      return Circle.fromJSON(data)
+    case GeometryType.Ellipse:
+      return Ellipse.fromJSON(data)
+    case GeometryType.Line:
+      return Line.fromJSON(data)
+    case GeometryType.Polygon:
+      return Polygon.fromJSON(data)
+  }
+}
+
+/**
+ * Converts a shape record to plain JSON.
+ * @param shape The shape.
+ * @returns The JSON representation.
+ */
+export function serializeShape(shape: Shape): ShapeData {
+  return {
+    id: shape.id,
+    type: shape.type,
+    rotation: shape.rotation,
+    visible: shape.visible,
+    style: { ...shape.style, dash: [...shape.style.dash] },
+    geometry: serializeGeometry(shape.geometry),
+  }
+}
+
+/**
+ * Recreates a shape record from plain JSON.
+ * @param data The output of `serializeShape`.
+ * @returns A new shape record.
+ */
+export function deserializeShape(data: ShapeData): Shape {
+  return createShape(deserializeGeometry(data.geometry), {
+    id: data.id,
+    rotation: data.rotation,
+    visible: data.visible,
+    style: data.style,
+  })
+}
@@ -0,0 +1,47 @@
+import { useDocumentStore } from '../../stores/document.store'
+import type { Rectangle } from '../math/geometry'
+import { RTree } from '../math/rtree'
+import { getShapeBounds, type Shape } from './shapes'
+
+/**
+ * Spatial index of the document's shape ids, kept in sync by `indexDocument`.
+ */
+export const sceneIndex = new RTree<string>()
+
+/**
+ * Gets the area a shape covers on the canvas, including the half of its stroke
+ * that is drawn outside the geometry.
+ * @param shape The shape.
+ * @returns A new Rectangle.
+ */
+export function getShapeIndexBounds(shape: Shape): Rectangle {
+  return getShapeBounds(shape).expand(shape.style.strokeWidth / 2)
+}
+
+/**
+ * Indexes every shape of the document, then keeps the index up to date as shapes
+ * are added, changed and removed.
+ * @returns A function that stops updating the index.
+ */
+export function indexDocument(): () => void {
+  sceneIndex.load(
+    useDocumentStore
+      .getState()
+      .getShapes()
+      .map((shape) => [shape.id, getShapeIndexBounds(shape)]),
+  )
+
+  return useDocumentStore.subscribe((state, prev) => {
+    if (state.shapes === prev.shapes) return
+
+    // Shape records are replaced on change, so comparing references finds the changed ones
+    for (const id in prev.shapes) {
+      if (!state.shapes[id]) sceneIndex.remove(id)
+    }
+    for (const id in state.shapes) {
+      if (state.shapes[id] !== prev.shapes[id]) {
+        sceneIndex.update(id, getShapeIndexBounds(state.shapes[id]))
+      }
+    }
+  })
+}
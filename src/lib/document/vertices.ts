@@ -0,0 +1,229 @@
+import { Line, Matrix, Point, Polygon } from '../math/geometry'
+import { HIT_TOLERANCE } from './hit'
+import { HANDLE_SIZE } from './selection'
+import {
+  getShapeCenter,
+  ShapeType,
+  getShapeTransform,
+  type LineShape,
+  type PolygonShape,
+  type Shape,
+} from './shapes'
+
+/**
+ * A shape whose vertices can be edited directly.
+ */
+export type EditableShape = LineShape | PolygonShape
+
+/**
+ * A point on an edge of a polygon shape.
+ */
+export interface EdgeHit {
+  /** Index of the edge, which runs from vertex `index` to the next one. */
+  index: number
+  /** The point on the edge closest to the pointer, in world coordinates. */
+  point: Point
+}
+
+/**
+ * Checks whether a shape's vertices can be edited.
+ */
+export function isEditableShape(shape: Shape): shape is EditableShape {
+  return shape.geometry instanceof Line || shape.geometry instanceof Polygon
+}
+
+/**
+ * Gets the vertices of a geometry a user can edit. A closed polygon repeats its first
+ * vertex at the end, which is left out.
+ */
+function getEditableVertices(geometry: Line | Polygon): Point[] {
+  if (geometry instanceof Line) return [geometry.start, geometry.end]
+  return geometry.isClosed()
+    ? geometry.vertices.slice(0, -1)
+    : geometry.vertices
+}
+
+/**
+ * Converts a world point to the geometry space of a shape.
+ */
+function toLocal(shape: Shape, point: Point): Point {
+  return shape.rotation === 0
+    ? point.clone()
+    : point.clone().transform(getShapeTransform(shape).invert())
+}
+
+/**
+ * Wraps an edited geometry into a copy of a shape, keeping the vertices that didn't change
+ * in place. The shape rotates around the center of its geometry, which moves with the edit,
+ * so the geometry is shifted to make up for it.
+ */
+function withGeometry<T extends EditableShape>(
+  shape: T,
+  geometry: T['geometry'],
+): T {
+  const edited = { ...shape, geometry } as T
+
+  if (shape.rotation !== 0) {
+    // For a rotation R around a center moving from c to c', shifting by (I - R)(c - c')
+    // puts every unchanged vertex back where it was
+    const before = getShapeCenter(shape)
+    const delta = before.clone().subtract(getShapeCenter(edited))
+    const rotated = Matrix.rotation(shape.rotation).applyToPoint(delta)
+    geometry.translate(delta.x - rotated.x, delta.y - rotated.y)
+  }
+  return edited
+}
+
+/**
+ * Gets the vertices of a shape a user can edit.
+ * @param shape The shape.
+ * @returns New Points in world coordinates: the ends of a line, or the distinct vertices of a polygon.
+ */
+export function getShapeVertices(shape: EditableShape): Point[] {
+  const transform = getShapeTransform(shape)
+  return getEditableVertices(shape.geometry).map((vertex) =>
+    transform.applyToPoint(vertex),
+  )
+}
+
+/**
+ * Finds the vertex handle of a shape under a point.
+ * @param shape The shape.
+ * @param point The point in world coordinates.
+ * @param zoom The current zoom, to convert the handle size to world units.
+ * @returns The index of the closest vertex in reach, or null if there's none.
+ */
+export function getVertexAt(
+  shape: EditableShape,
+  point: Point,
+  zoom: number,
+): number | null {
+  const reach = (HANDLE_SIZE / 2 + HIT_TOLERANCE) / zoom
+  let closest: number | null = null
+  let closestDistance = reach
+
+  getShapeVertices(shape).forEach((vertex, i) => {
+    const distance = vertex.distanceTo(point)
+    if (distance <= closestDistance) {
+      closest = i
+      closestDistance = distance
+    }
+  })
+  return closest
+}
+
+/**
+ * Finds the edge of a polygon shape under a point, where a vertex can be inserted.
+ * The point must be on the stroke, within the hit tolerance.
+ * @param shape The shape.
+ * @param point The point in world coordinates.
+ * @param zoom The current zoom, to convert the tolerance to world units.
+ * @returns The closest edge within the hit tolerance, or null if there's none.
+ */
+export function getEdgeAt(
+  shape: PolygonShape,
+  point: Point,
+  zoom: number,
+): EdgeHit | null {
+  const local = toLocal(shape, point)
+  const edges = shape.geometry.getEdges()
+  // An open polygon doesn't have the edge back to its first vertex
+  const count = shape.geometry.isClosed() ? edges.length : edges.length - 1
+  let closest: EdgeHit | null = null
+  let closestDistance = shape.style.strokeWidth / 2 + HIT_TOLERANCE / zoom
+
+  for (let i = 0; i < count; i++) {
+    const onEdge = edges[i].closestPoint(local)
+    const distance = onEdge.distanceTo(local)
+    if (distance <= closestDistance) {
+      closest = { index: i, point: onEdge }
+      closestDistance = distance
+    }
+  }
+
+  if (!closest) return null
+  return {
+    index: closest.index,
+    point: getShapeTransform(shape).applyToPoint(closest.point),
+  }
+}
+
+/**
+ * Moves a vertex of a shape.
+ * @param shape The shape.
+ * @param index The index of the vertex, as in `getShapeVertices`.
+ * @param point The new position in world coordinates.
+ * @returns A new shape record.
+ */
+export function moveVertex<T extends EditableShape>(
+  shape: T,
+  index: number,
+  point: Point,
+): T {
+  const local = toLocal(shape, point)
+  const geometry = shape.geometry.clone()
+
+  if (geometry instanceof Line) {
+    if (index === 0) geometry.start = local
+    else geometry.end = local
+  } else {
+    // The closing copy of the first vertex follows it
+    if (index === 0 && geometry.isClosed()) {
+      geometry.setVertex(geometry.vertices.length - 1, local)
+    }
+    geometry.setVertex(index, local)
+  }
+  return withGeometry(shape, geometry as T['geometry'])
+}
+
+/**
+ * Inserts a vertex into an edge of a polygon shape.
+ * @param shape The shape.
+ * @param edge The edge and the point on it, as found by `getEdgeAt`.
+ * @returns A new shape record. The new vertex is at index `edge.index + 1`.
+ */
+export function insertVertex(shape: PolygonShape, edge: EdgeHit): PolygonShape {
+  const geometry = shape.geometry
+    .clone()
+    .insertVertex(edge.index + 1, toLocal(shape, edge.point))
+  return withGeometry(shape, geometry)
+}
+
+/**
+ * Checks whether a vertex can be removed from a shape. Lines keep both ends, closed
+ * polygons keep 3 vertices and open ones 2.
+ * @param shape The shape.
+ * @returns True if the shape has vertices to spare.
+ */
+export function canRemoveVertex(shape: EditableShape): boolean {
+  if (shape.geometry instanceof Line) return false
+
+  const count = getEditableVertices(shape.geometry).length
+  return count > (shape.geometry.isClosed() ? 3 : 2)
+}
+
+/**
+ * Removes a vertex from a polygon shape.
+ * @param shape The shape.
+ * @param index The index of the vertex, as in `getShapeVertices`.
+ * @returns A new shape record, or null if the vertex doesn't exist or can't be removed.
+ */
+export function removeVertex(
+  shape: EditableShape,
+  index: number,
+): PolygonShape | null {
+  if (shape.type !== ShapeType.Polygon || !canRemoveVertex(shape)) return null
+  if (index < 0 || index >= getEditableVertices(shape.geometry).length) {
+    return null
+  }
+
+  const geometry = shape.geometry.clone()
+  const closed = geometry.isClosed()
+
+  geometry.removeVertex(index)
+  // Keep the closing copy in sync with the new first vertex
+  if (index === 0 && closed) {
+    geometry.setVertex(geometry.vertices.length - 1, geometry.vertices[0])
+  }
+  return withGeometry(shape, geometry)
+}
@@ -0,0 +1,141 @@
+export type SerializedCommand = {
+  type: string
+  payload: unknown
+  label?: string
+}
+
+export type Command = {
+  execute: () => void
+  undo: () => void
+  /** Human readable description, e.g. "Move 3 shapes". */
+  label?: string
+  /** Estimated memory held by the command, in bytes. Counts towards `maxSize`. */
+  size?: number
+  /**
+   * Combines this command with the one executed right after it, e.g. two
+   * arrow key nudges of the same shapes. Returns the combined command, or null
+   * when the commands can't be merged. The combined command must undo both.
+   */
+  merge?: (next: Command) => Command | null
+  /**
+   * Describes the command as plain JSON so that it can be stored and recreated
+   * with `deserializeCommand`. Only commands created from a registered type have it.
+   */
+  serialize?: () => SerializedCommand
+}
+
+/**
+ * Applies and reverts commands of one type from a JSON payload.
+ * The payload must hold everything needed to do both, since it is all that survives a reload.
+ */
+export interface CommandHandler<P> {
+  execute: (payload: P) => void
+  undo: (payload: P) => void
+  label?: (payload: P) => string
+  /** Combines two consecutive payloads, or returns null if they can't be merged. */
+  merge?: (payload: P, next: P) => P | null
+  /** Estimated memory held by a payload, in bytes. Defaults to twice its JSON length. */
+  size?: (payload: P) => number
+}
+
+/** Type of the command grouping the commands of a transaction. */
+export const COMPOSITE_COMMAND = 'composite'
+
+/** Handlers by type. Payload types are erased here and restored by `createCommand`. */
+const handlers = new Map<string, CommandHandler<unknown>>()
+
+/**
+ * Registers the handler for a command type.
+ * @param type A unique command type, e.g. "document/add-shapes".
+ * @param handler The handler.
+ * @throws Error if the type is already registered.
+ */
+export function registerCommand<P>(type: string, handler: CommandHandler<P>) {
+  if (handlers.has(type) || type === COMPOSITE_COMMAND) {
+    throw new Error(`Command type "${type}" is already registered`)
+  }
+  handlers.set(type, handler as CommandHandler<unknown>)
+}
+
+/**
+ * Creates a serializable command of a registered type.
+ * @param type The command type.
+ * @param payload The JSON payload passed to the handler.
+ * @param label Overrides the label provided by the handler.
+ * @returns A new Command.
+ * @throws Error if the type isn't registered.
+ */
+export function createCommand<P>(
+  type: string,
+  payload: P,
+  label?: string,
+): Command {
+  const handler = handlers.get(type) as CommandHandler<P> | undefined
+
+  if (!handler) {
+    throw new Error(`Unknown command type "${type}"`)
+  }
+
+  const commandLabel = label ?? handler.label?.(payload)
+
+  return {
+    execute: () => handler.execute(payload),
+    undo: () => handler.undo(payload),
+    label: commandLabel,
+    size: handler.size?.(payload) ?? JSON.stringify(payload).length * 2,
+    merge: handler.merge
+      ? (next: Command) => {
+          const data = next.serialize?.()
+          if (data?.type !== type || data.label !== commandLabel) return null
+
+          const merged = handler.merge!(payload, data.payload as P)
+          return merged === null ? null : createCommand(type, merged, label)
+        }
+      : undefined,
+    serialize: () => ({ type, payload, label: commandLabel }),
+  }
+}
+
+/**
+ * Creates a command that executes the given commands in order and undoes them in reverse.
+ * It is serializable if all of the given commands are.
+ * @param commands The commands to group.
+ * @param label The label of the group.
+ * @returns A new Command.
+ */
+export function createCompositeCommand(
+  commands: Command[],
+  label?: string,
+): Command {
+  const serializable = commands.every((command) => command.serialize)
+
+  return {
+    execute: () => commands.forEach((command) => command.execute()),
+    undo: () => [...commands].reverse().forEach((command) => command.undo()),
+    label,
+    size: commands.reduce((total, command) => total + (command.size ?? 0), 0),
+    serialize: serializable
+      ? () => ({
+          type: COMPOSITE_COMMAND,
+          payload: commands.map((command) => command.serialize!()),
+          label,
+        })
+      : undefined,
+  }
+}
+
+/**
+ * Recreates a command from its serialized form.
+ * @param data The output of `Command.serialize`.
+ * @returns A new Command.
+ * @throws Error if the command type, or that of a grouped command, isn't registered.
+ */
+export function deserializeCommand(data: SerializedCommand): Command {
+  if (data.type === COMPOSITE_COMMAND) {
+    return createCompositeCommand(
+      (data.payload as SerializedCommand[]).map(deserializeCommand),
+      data.label,
+    )
+  }
+  return createCommand(data.type, data.payload, data.label)
+}
@@ -0,0 +1,157 @@
+import { useDocumentStore } from '../../stores/document.store'
+import { useHistoryStore } from '../../stores/history.store'
+import {
+  deserializeShape,
+  serializeShape,
+  type ShapeData,
+} from '../document/shapes'
+import {
+  deserializeCommand,
+  type Command,
+  type SerializedCommand,
+} from './commands'
+// Command handlers must be registered before restoring
+import '../document/commands'
+
+/**
+ * Where a session snapshot is kept. Asynchronous so that IndexedDB can back it.
+ */
+export interface SessionStorage {
+  load: () => Promise<string | null>
+  save: (data: string) => Promise<void>
+}
+
+/**
+ * The document together with the undo history that leads to it.
+ * They are stored as one snapshot so that they can never get out of sync.
+ */
+type Session = {
+  version: typeof SESSION_VERSION
+  shapes: ShapeData[]
+  history: SerializedCommand[]
+  historyIndex: number
+}
+
+const SESSION_VERSION = 1
+const SAVE_DELAY = 500
+
+/**
+ * Creates a session storage backed by `localStorage`.
+ * @param key The localStorage key.
+ * @returns A new SessionStorage.
+ */
+export function createLocalSessionStorage(
+  key: string = 'canvas-editor:session',
+): SessionStorage {
+  return {
+    load: async () => localStorage.getItem(key),
+    save: async (data: string) => localStorage.setItem(key, data),
+  }
+}
+
+/**
+ * Picks the commands that can be stored: the serializable ones directly before
+ * the current index and directly after it. A command that can't be serialized
+ * cuts the history there.
+ */
+function getStorableHistory(history: Command[], historyIndex: number) {
+  let start = historyIndex + 1
+  while (start > 0 && history[start - 1].serialize) start--
+
+  let end = historyIndex + 1
+  while (end < history.length && history[end].serialize) end++
+
+  return {
+    history: history.slice(start, end).map((command) => command.serialize!()),
+    historyIndex: historyIndex - start,
+  }
+}
+
+/**
+ * Creates a snapshot of the document and its history.
+ * @returns The snapshot as a JSON string.
+ */
+export function serializeSession(): string {
+  const { getShapes } = useDocumentStore.getState()
+  const { history, historyIndex } = useHistoryStore.getState()
+
+  const session: Session = {
+    version: SESSION_VERSION,
+    shapes: getShapes().map(serializeShape),
+    ...getStorableHistory(history, historyIndex),
+  }
+
+  return JSON.stringify(session)
+}
+
+/**
+ * Replaces the document and its history with a snapshot.
+ * @param data The output of `serializeSession`.
+ * @returns False if the snapshot has an unknown version and was ignored.
+ * @throws Error if the snapshot contains an unknown command type.
+ */
+export function deserializeSession(data: string): boolean {
+  const session = JSON.parse(data) as Session
+
+  if (session.version !== SESSION_VERSION) return false
+
+  const history = session.history.map(deserializeCommand)
+
+  useDocumentStore.getState().load(session.shapes.map(deserializeShape))
+  useHistoryStore.getState().load(history, session.historyIndex)
+  return true
+}
+
+/**
+ * Restores the last session, then saves a new snapshot shortly after every
+ * change to the document or its history.
+ * @param storage Where the session is kept.
+ * @returns A function that stops saving.
+ */
+export async function persistSession(
+  storage: SessionStorage = createLocalSessionStorage(),
+): Promise<() => void> {
+  try {
+    const data = await storage.load()
+    if (data) deserializeSession(data)
+  } catch (error) {
+    console.error('Failed to restore the previous session', error)
+  }
+
+  let timeoutId: number | null = null
+
+  function scheduleSave() {
+    if (timeoutId !== null) return
+
+    timeoutId = window.setTimeout(() => {
+      timeoutId = null
+
+      // Mid-transaction the document is ahead of the history; wait for the commit
+      if (useHistoryStore.getState().transaction) {
+        scheduleSave()
+        return
+      }
+
+      storage.save(serializeSession()).catch((error) => {
+        console.error('Failed to save the session', error)
+      })
+    }, SAVE_DELAY)
+  }
+
+  const unsubscribers = [
+    useDocumentStore.subscribe(scheduleSave),
+    useHistoryStore.subscribe((state, prev) => {
+      if (
+        state.history !== prev.history ||
+        state.historyIndex !== prev.historyIndex
+      ) {
+        scheduleSave()
+      }
+    }),
+  ]
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe())
+    if (timeoutId !== null) window.clearTimeout(timeoutId)
+  }
+}
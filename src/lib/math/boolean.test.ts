@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest'
+import { difference, intersection, MultiPolygon, union, xor } from './boolean'
+import { Point, Polygon } from './geometry'
+
+function polygon(...coordinates: [number, number][]): Polygon {
+  return new Polygon(coordinates.map(([x, y]) => new Point(x, y))).close()
+}
+
+function square(x: number, y: number, size: number): Polygon {
+  return polygon([x, y], [x + size, y], [x + size, y + size], [x, y + size])
+}
+
+/** Counts the parts of a result and the holes of each. */
+function shape(result: MultiPolygon): number[] {
+  return result.polygons.map(({ holes }) => holes.length)
+}
+
+/** An L covering [0, 20]² minus its top right quarter. */
+const lShape = polygon([0, 0], [20, 0], [20, 10], [10, 10], [10, 20], [0, 20])
+
+/** A U open at the top: [0, 30] x [0, 20] minus the slot [10, 20] x [0, 10]. */
+const uShape = polygon(
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [20, 10],
+  [20, 0],
+  [30, 0],
+  [30, 20],
+  [0, 20],
+)
+
+/** Two squares of 10 touching at their corner (10, 10), drawn as a single ring. */
+const bowtie = polygon(
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [20, 10],
+  [20, 20],
+  [10, 20],
+  [10, 10],
+  [0, 10],
+)
+
+describe('union', () => {
+  it('fills the notch of a concave polygon', () => {
+    const result = union(lShape, square(5, 5, 10))
+
+    expect(shape(result)).toEqual([0])
+    expect(result.area()).toBeCloseTo(325)
+    expect(result.contains(new Point(12, 12))).toBe(true)
+    expect(result.contains(new Point(18, 18))).toBe(false)
+  })
+
+  it('fills the slot of a U along its coincident edges', () => {
+    const result = union(uShape, square(10, 0, 10))
+
+    expect(shape(result)).toEqual([0])
+    expect(result.area()).toBeCloseTo(600)
+    expect(result.polygons[0].outer.vertices).toHaveLength(5)
+  })
+
+  it('leaves a hole where a bar closes a U', () => {
+    const result = union(uShape, polygon([0, -5], [30, -5], [30, 0], [0, 0]))
+
+    expect(shape(result)).toEqual([1])
+    expect(result.area()).toBeCloseTo(650)
+    expect(result.contains(new Point(15, 5))).toBe(false)
+  })
+
+  it('keeps disjoint operands as separate parts', () => {
+    const result = union(square(0, 0, 10), square(20, 0, 10))
+
+    expect(shape(result)).toEqual([0, 0])
+    expect(result.area()).toBeCloseTo(200)
+  })
+
+  it('merges operands sharing an edge into one ring', () => {
+    const result = union(square(0, 0, 10), square(10, 0, 10))
+
+    expect(shape(result)).toEqual([0])
+    expect(result.area()).toBeCloseTo(200)
+    expect(result.polygons[0].outer.vertices).toHaveLength(5)
+  })
+
+  it('handles a self-touching operand', () => {
+    const result = union(bowtie, square(5, 5, 10))
+
+    expect(shape(result)).toEqual([0])
+    expect(result.area()).toBeCloseTo(250)
+    expect(result.contains(new Point(12, 8))).toBe(true)
+    expect(result.contains(new Point(18, 2))).toBe(false)
+  })
+})
+
+describe('intersection', () => {
+  it('clips a concave polygon into separate parts', () => {
+    const result = intersection(
+      uShape,
+      polygon([0, 5], [30, 5], [30, 8], [0, 8]),
+    )
+
+    expect(shape(result)).toEqual([0, 0])
+    expect(result.area()).toBeCloseTo(60)
+  })
+
+  it('is empty for operands sharing only an edge', () => {
+    const result = intersection(square(0, 0, 10), square(10, 0, 10))
+
+    expect(result.isEmpty()).toBe(true)
+  })
+
+  it('splits at the touching corner of a self-touching operand', () => {
+    const result = intersection(bowtie, square(5, 5, 10))
+
+    expect(shape(result)).toEqual([0, 0])
+    expect(result.area()).toBeCloseTo(50)
+  })
+
+  it('keeps a hole of an operand', () => {
+    const ring = difference(square(0, 0, 30), square(10, 10, 10))
+    const result = intersection(ring, square(5, 5, 20))
+
+    expect(shape(result)).toEqual([1])
+    expect(result.area()).toBeCloseTo(300)
+  })
+})
+
+describe('difference', () => {
+  it('cuts a hole out of the middle', () => {
+    const result = difference(square(0, 0, 30), square(10, 10, 10))
+
+    expect(shape(result)).toEqual([1])
+    expect(result.area()).toBeCloseTo(800)
+    expect(result.contains(new Point(15, 15))).toBe(false)
+    expect(result.contains(new Point(5, 5))).toBe(true)
+  })
+
+  it('splits a polygon in two', () => {
+    const result = difference(
+      square(0, 0, 30),
+      polygon([10, -5], [20, -5], [20, 35], [10, 35]),
+    )
+
+    expect(shape(result)).toEqual([0, 0])
+    expect(result.area()).toBeCloseTo(600)
+  })
+
+  it('leaves an operand sharing only an edge as it is', () => {
+    const result = difference(square(0, 0, 10), square(10, 0, 10))
+
+    expect(shape(result)).toEqual([0])
+    expect(result.area()).toBeCloseTo(100)
+  })
+
+  it('removes the overlap from a concave polygon', () => {
+    const result = difference(lShape, square(5, 5, 10))
+
+    expect(shape(result)).toEqual([0])
+    expect(result.area()).toBeCloseTo(225)
+    expect(result.contains(new Point(7, 7))).toBe(false)
+  })
+
+  it('removes a part of a self-touching operand', () => {
+    const result = difference(bowtie, square(10, 10, 10))
+
+    expect(shape(result)).toEqual([0])
+    expect(result.area()).toBeCloseTo(100)
+    expect(result.contains(new Point(15, 15))).toBe(false)
+  })
+})
+
+describe('xor', () => {
+  it('keeps both sides of an overlap', () => {
+    const result = xor(square(0, 0, 20), square(10, 10, 20))
+
+    expect(result.area()).toBeCloseTo(600)
+    expect(result.contains(new Point(15, 15))).toBe(false)
+    expect(result.contains(new Point(5, 5))).toBe(true)
+    expect(result.contains(new Point(25, 25))).toBe(true)
+  })
+
+  it('leaves a hole for a nested operand', () => {
+    const result = xor(square(0, 0, 30), square(10, 10, 10))
+
+    expect(shape(result)).toEqual([1])
+    expect(result.area()).toBeCloseTo(800)
+  })
+
+  it('merges operands sharing an edge', () => {
+    const result = xor(square(0, 0, 10), square(10, 0, 10))
+
+    expect(shape(result)).toEqual([0])
+    expect(result.area()).toBeCloseTo(200)
+  })
+
+  it('handles a concave and a self-touching operand', () => {
+    const result = xor(lShape, bowtie)
+
+    expect(result.area()).toBeCloseTo(300)
+    expect(result.contains(new Point(5, 5))).toBe(false)
+    expect(result.contains(new Point(15, 5))).toBe(true)
+    expect(result.contains(new Point(15, 15))).toBe(true)
+  })
+})
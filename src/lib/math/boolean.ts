@@ -0,0 +1,558 @@
+/**
+ * @file Boolean operations between polygons: union, intersection, difference and xor.
+ *
+ * Works on a planar graph of all input edges: edges are split wherever they cross or touch,
+ * each piece is kept if the result is filled on exactly one of its sides, and the kept pieces
+ * are chained back into rings. This handles concave, self-intersecting and self-touching
+ * inputs, and results with holes or several separate parts. Inputs are filled with the
+ * nonzero rule, like the canvas does.
+ */
+
+import { Matrix, Point, Polygon, Rectangle } from './geometry'
+
+export const BooleanOperation = {
+  Union: 'union',
+  Intersection: 'intersection',
+  Difference: 'difference',
+  Xor: 'xor',
+} as const
+
+export type BooleanOperation = Enum<typeof BooleanOperation>
+
+/**
+ * A polygon with holes: an outer ring and rings cut out of it.
+ */
+export interface PolygonWithHoles {
+  outer: Polygon
+  holes: Polygon[]
+}
+
+/**
+ * Gets the distinct vertices of a polygon, without the repeated closing vertex.
+ */
+function getRing(polygon: Polygon): Point[] {
+  return polygon.isClosed() ? polygon.vertices.slice(0, -1) : polygon.vertices
+}
+
+/**
+ * Calculates the winding number of rings around a point.
+ * Rings with a positive signed area wind +1 around their interior.
+ */
+function windingNumber(rings: Point[][], point: Point): number {
+  let winding = 0
+
+  for (const ring of rings) {
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[i]
+      const b = ring[(i + 1) % ring.length]
+      const side = (b.x - a.x) * (point.y - a.y) - (point.x - a.x) * (b.y - a.y)
+
+      if (a.y <= point.y) {
+        if (b.y > point.y && side > 0) winding++
+      } else if (b.y <= point.y && side < 0) {
+        winding--
+      }
+    }
+  }
+
+  return winding
+}
+
+/**
+ * Represents a set of polygons with holes, the result of a boolean operation.
+ * Outer rings have a positive signed area and holes a negative one, so the whole
+ * set renders correctly with either fill rule.
+ */
+export class MultiPolygon {
+  /** The separate parts. */
+  public polygons: PolygonWithHoles[]
+
+  /**
+   * Creates a new MultiPolygon instance.
+   * @param polygons The parts. Defaults to an empty array.
+   */
+  constructor(polygons: PolygonWithHoles[] = []) {
+    this.polygons = polygons
+  }
+
+  // Chainable methods
+
+  /**
+   * Translates (moves) every ring by given deltas.
+   * Modifies this multi-polygon and returns it for chaining.
+   * @param dx The amount to move in the x-direction.
+   * @param dy The amount to move in the y-direction.
+   * @returns This multi-polygon after translation.
+   */
+  public translate(dx: number, dy: number): MultiPolygon {
+    this.rings().forEach((ring) => ring.translate(dx, dy))
+    return this
+  }
+
+  /**
+   * Transforms every ring by an affine matrix. A reflection reverses the rings so that
+   * outer rings keep a positive signed area.
+   * Modifies this multi-polygon and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This multi-polygon after transformation.
+   */
+  public transform(matrix: Matrix): MultiPolygon {
+    const reflects = matrix.determinant() < 0
+    this.rings().forEach((ring) => {
+      ring.transform(matrix)
+      if (reflects) ring.reverse()
+    })
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Gets every ring, outer rings followed by their holes.
+   * @returns The rings themselves, not copies.
+   */
+  public rings(): Polygon[] {
+    return this.polygons.flatMap(({ outer, holes }) => [outer, ...holes])
+  }
+
+  /**
+   * Checks if the multi-polygon has no parts.
+   * @returns True if there are no parts, false otherwise.
+   */
+  public isEmpty(): boolean {
+    return this.polygons.length === 0
+  }
+
+  /**
+   * Calculates the filled area: the area of the outer rings minus that of their holes.
+   * @returns The area.
+   */
+  public area(): number {
+    return this.polygons.reduce(
+      (total, { outer, holes }) =>
+        total +
+        outer.area() -
+        holes.reduce((sum, hole) => sum + hole.area(), 0),
+      0,
+    )
+  }
+
+  /**
+   * Checks if a point is inside a part and outside its holes.
+   * @param point The point to check.
+   * @returns True if the point is in the filled area, false otherwise.
+   */
+  public contains(point: Point): boolean {
+    return windingNumber(this.rings().map(getRing), point) !== 0
+  }
+
+  /**
+   * Calculates the axis-aligned bounding box of all parts.
+   * @returns A new Rectangle representing the bounding box. Returns an empty Rectangle if there are no parts.
+   */
+  public boundingBox(): Rectangle {
+    if (this.isEmpty()) return new Rectangle()
+
+    return this.polygons
+      .map(({ outer }) => outer.boundingBox())
+      .reduce((box, outerBox) => box.union(outerBox))
+  }
+
+  /**
+   * Creates a new MultiPolygon instance with copies of all rings.
+   * @returns A new MultiPolygon instance (a clone).
+   */
+  public clone(): MultiPolygon {
+    return new MultiPolygon(
+      this.polygons.map(({ outer, holes }) => ({
+        outer: outer.clone(),
+        holes: holes.map((hole) => hole.clone()),
+      })),
+    )
+  }
+
+  /**
+   * Returns a string representation of this multi-polygon.
+   * @returns A string in the format "MultiPolygon([Polygon(...) - [Polygon(...)], ...])".
+   */
+  public toString(): string {
+    const parts = this.polygons.map(
+      ({ outer, holes }) =>
+        `${outer.toString()} - [${holes.map((hole) => hole.toString()).join(', ')}]`,
+    )
+    return `MultiPolygon([${parts.join(', ')}])`
+  }
+
+  // Static methods
+
+  /**
+   * Creates a multi-polygon with a single part and no holes.
+   * @param polygon The outer ring. It is cloned and oriented to a positive signed area.
+   * @returns A new MultiPolygon instance.
+   */
+  public static fromPolygon(polygon: Polygon): MultiPolygon {
+    const outer = polygon.clone().close()
+    if (outer.signedArea() < 0) outer.reverse()
+    return new MultiPolygon([{ outer, holes: [] }])
+  }
+}
+
+type Edge = { start: Point; end: Point }
+
+/**
+ * Gets the rings of an operand with consistent orientation: for a multi-polygon, outer rings
+ * wind positively and holes negatively. A plain polygon is kept as is, since the nonzero rule
+ * doesn't depend on its orientation.
+ */
+function getOperandRings(operand: Polygon | MultiPolygon): Point[][] {
+  if (operand instanceof Polygon) return [getRing(operand)]
+
+  return operand.polygons.flatMap(({ outer, holes }) => {
+    const orient = (ring: Polygon, sign: number) =>
+      Math.sign(ring.signedArea()) === -sign
+        ? [...getRing(ring)].reverse()
+        : getRing(ring)
+
+    return [orient(outer, 1), ...holes.map((hole) => orient(hole, -1))]
+  })
+}
+
+function getRingEdges(rings: Point[][]): Edge[] {
+  return rings.flatMap((ring) =>
+    ring.length < 3
+      ? []
+      : ring.map((start, i) => ({ start, end: ring[(i + 1) % ring.length] })),
+  )
+}
+
+/**
+ * Finds the parameters at which two edges meet, including the ends of collinear overlaps.
+ * @returns The parameters on the first and on the second edge.
+ */
+function findCrossings(a: Edge, b: Edge, tolerance: number) {
+  const ta: number[] = []
+  const tb: number[] = []
+
+  const rx = a.end.x - a.start.x
+  const ry = a.end.y - a.start.y
+  const sx = b.end.x - b.start.x
+  const sy = b.end.y - b.start.y
+  const qx = b.start.x - a.start.x
+  const qy = b.start.y - a.start.y
+
+  const denominator = rx * sy - ry * sx
+  const lengthA = Math.hypot(rx, ry)
+  const lengthB = Math.hypot(sx, sy)
+  if (lengthA === 0 || lengthB === 0) return { ta, tb }
+
+  if (Math.abs(denominator) > 1e-12 * lengthA * lengthB) {
+    const t = (qx * sy - qy * sx) / denominator
+    const u = (qx * ry - qy * rx) / denominator
+    const slackA = tolerance / lengthA
+    const slackB = tolerance / lengthB
+
+    if (t >= -slackA && t <= 1 + slackA && u >= -slackB && u <= 1 + slackB) {
+      ta.push(Math.min(1, Math.max(0, t)))
+      tb.push(Math.min(1, Math.max(0, u)))
+    }
+    return { ta, tb }
+  }
+
+  // Parallel: only collinear edges meet, along an overlap
+  if (Math.abs(qx * ry - qy * rx) / lengthA > tolerance) return { ta, tb }
+
+  const dotA = lengthA * lengthA
+  const dotB = lengthB * lengthB
+  for (const t of [
+    (qx * rx + qy * ry) / dotA,
+    ((b.end.x - a.start.x) * rx + (b.end.y - a.start.y) * ry) / dotA,
+  ]) {
+    if (t > 0 && t < 1) ta.push(t)
+  }
+  for (const u of [
+    (-qx * sx - qy * sy) / dotB,
+    ((a.end.x - b.start.x) * sx + (a.end.y - b.start.y) * sy) / dotB,
+  ]) {
+    if (u > 0 && u < 1) tb.push(u)
+  }
+  return { ta, tb }
+}
+
+/**
+ * Splits edges wherever they meet another edge, and merges points closer than the tolerance.
+ * @returns Undirected edges that only meet at their end points, without duplicates.
+ */
+function splitEdges(edges: Edge[], tolerance: number): Edge[] {
+  const params = edges.map(() => [0, 1])
+
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const a = edges[i]
+      const b = edges[j]
+      if (
+        Math.max(a.start.x, a.end.x) + tolerance <
+          Math.min(b.start.x, b.end.x) ||
+        Math.max(b.start.x, b.end.x) + tolerance <
+          Math.min(a.start.x, a.end.x) ||
+        Math.max(a.start.y, a.end.y) + tolerance <
+          Math.min(b.start.y, b.end.y) ||
+        Math.max(b.start.y, b.end.y) + tolerance < Math.min(a.start.y, a.end.y)
+      ) {
+        continue
+      }
+
+      const { ta, tb } = findCrossings(a, b, tolerance)
+      params[i].push(...ta)
+      params[j].push(...tb)
+    }
+  }
+
+  const nodes = new Map<string, Point>()
+  const snap = (point: Point) => {
+    const key = `${Math.round(point.x / tolerance)}:${Math.round(point.y / tolerance)}`
+    const node = nodes.get(key)
+    if (node) return node
+    nodes.set(key, point)
+    return point
+  }
+
+  const pieces = new Map<Point, Set<Point>>()
+  const result: Edge[] = []
+
+  edges.forEach((edge, i) => {
+    const points = params[i]
+      .sort((a, b) => a - b)
+      .map((t) => snap(Point.lerp(edge.start, edge.end, t)))
+
+    for (let k = 0; k + 1 < points.length; k++) {
+      const start = points[k]
+      const end = points[k + 1]
+      if (start === end || pieces.get(start)?.has(end)) continue
+
+      pieces.set(start, (pieces.get(start) ?? new Set()).add(end))
+      pieces.set(end, (pieces.get(end) ?? new Set()).add(start))
+      result.push({ start, end })
+    }
+  })
+
+  return result
+}
+
+function isFilled(operation: BooleanOperation, inA: boolean, inB: boolean) {
+  switch (operation) {
+    case BooleanOperation.Union:
+      return inA || inB
+    case BooleanOperation.Intersection:
+      return inA && inB
+    case BooleanOperation.Difference:
+      return inA && !inB
+    case BooleanOperation.Xor:
+      return inA !== inB
+  }
+}
+
+/**
+ * Chains directed edges into closed rings. Where several edges leave the same point, the
+ * sharpest left turn is taken, which keeps rings that only touch at a point separate.
+ */
+function chainRings(edges: Edge[]): Point[][] {
+  const outgoing = new Map<Point, Edge[]>()
+  edges.forEach((edge) =>
+    outgoing.set(edge.start, [...(outgoing.get(edge.start) ?? []), edge]),
+  )
+
+  const used = new Set<Edge>()
+  const rings: Point[][] = []
+
+  for (const first of edges) {
+    if (used.has(first)) continue
+
+    const ring: Point[] = [first.start]
+    used.add(first)
+    let current = first
+    let closed = false
+
+    while (!closed) {
+      const dx = current.end.x - current.start.x
+      const dy = current.end.y - current.start.y
+      const candidates = (outgoing.get(current.end) ?? []).filter(
+        (edge) => edge === first || !used.has(edge),
+      )
+      if (candidates.length === 0) break
+
+      let next = candidates[0]
+      let bestTurn = -Infinity
+      for (const edge of candidates) {
+        const ex = edge.end.x - edge.start.x
+        const ey = edge.end.y - edge.start.y
+        const turn = Math.atan2(dx * ey - dy * ex, dx * ex + dy * ey)
+        if (turn > bestTurn) {
+          bestTurn = turn
+          next = edge
+        }
+      }
+
+      if (next === first) {
+        closed = true
+      } else {
+        ring.push(next.start)
+        used.add(next)
+        current = next
+      }
+    }
+
+    if (closed) rings.push(ring)
+  }
+
+  return rings
+}
+
+/**
+ * Removes vertices lying on the straight line through their neighbours.
+ */
+function removeCollinear(ring: Point[], tolerance: number): Point[] {
+  return ring.filter((point, i) => {
+    const previous = ring[(i + ring.length - 1) % ring.length]
+    const next = ring[(i + 1) % ring.length]
+    const cross =
+      (point.x - previous.x) * (next.y - point.y) -
+      (point.y - previous.y) * (next.x - point.x)
+    const dot =
+      (point.x - previous.x) * (next.x - point.x) +
+      (point.y - previous.y) * (next.y - point.y)
+    return Math.abs(cross) > tolerance * previous.distanceTo(next) || dot < 0
+  })
+}
+
+/**
+ * Computes a boolean operation between two polygons or multi-polygons.
+ * Polygons may be open or closed, concave, self-intersecting or self-touching; they are filled
+ * with the nonzero rule.
+ * @param a The first operand (the subject, for a difference).
+ * @param b The second operand (the clip, for a difference).
+ * @param operation The operation to perform.
+ * @returns A new MultiPolygon. Returns an empty one if the result has no area.
+ */
+export function booleanOperation(
+  a: Polygon | MultiPolygon,
+  b: Polygon | MultiPolygon,
+  operation: BooleanOperation,
+): MultiPolygon {
+  const ringsA = getOperandRings(a)
+  const ringsB = getOperandRings(b)
+  const allPoints = [...ringsA, ...ringsB].flat()
+  if (allPoints.length === 0) return new MultiPolygon()
+
+  const bounds = new Polygon(allPoints).boundingBox()
+  const scale = Math.max(bounds.width, bounds.height, 1)
+  const tolerance = scale * 1e-10
+  const offset = scale * 1e-7
+
+  const edges = splitEdges(
+    [...getRingEdges(ringsA), ...getRingEdges(ringsB)],
+    tolerance,
+  )
+
+  // Keep the edges with the result filled on one side only, interior on the left
+  const boundary: Edge[] = []
+  for (const edge of edges) {
+    const length = edge.start.distanceTo(edge.end)
+    const mid = Point.midpoint(edge.start, edge.end)
+    const nx = (-(edge.end.y - edge.start.y) / length) * offset
+    const ny = ((edge.end.x - edge.start.x) / length) * offset
+    const left = new Point(mid.x + nx, mid.y + ny)
+    const right = new Point(mid.x - nx, mid.y - ny)
+
+    const filledLeft = isFilled(
+      operation,
+      windingNumber(ringsA, left) !== 0,
+      windingNumber(ringsB, left) !== 0,
+    )
+    const filledRight = isFilled(
+      operation,
+      windingNumber(ringsA, right) !== 0,
+      windingNumber(ringsB, right) !== 0,
+    )
+
+    if (filledLeft && !filledRight) boundary.push(edge)
+    if (filledRight && !filledLeft) {
+      boundary.push({ start: edge.end, end: edge.start })
+    }
+  }
+
+  const rings = chainRings(boundary)
+    .map((ring) => removeCollinear(ring, tolerance))
+    .filter((ring) => ring.length >= 3)
+    .map((ring) => ({ ring, area: new Polygon(ring).signedArea() }))
+  const outers = rings
+    .filter(({ area }) => area > 0)
+    .sort((p, q) => p.area - q.area)
+  const holes = rings.filter(({ area }) => area < 0)
+
+  const parts = outers.map(({ ring }) => ({ ring, holes: [] as Point[][] }))
+  for (const { ring: hole } of holes) {
+    // Edges aren't shared between rings, so an edge midpoint is never on another ring
+    const probe = Point.midpoint(hole[0], hole[1])
+    const part = parts.find(({ ring }) => windingNumber([ring], probe) !== 0)
+    part?.holes.push(hole)
+  }
+
+  return new MultiPolygon(
+    parts.map(({ ring, holes }) => ({
+      outer: new Polygon(ring).close(),
+      holes: holes.map((hole) => new Polygon(hole).close()),
+    })),
+  )
+}
+
+/**
+ * Computes the area covered by either operand.
+ * @param a The first operand.
+ * @param b The second operand.
+ * @returns A new MultiPolygon.
+ */
+export function union(
+  a: Polygon | MultiPolygon,
+  b: Polygon | MultiPolygon,
+): MultiPolygon {
+  return booleanOperation(a, b, BooleanOperation.Union)
+}
+
+/**
+ * Computes the area covered by both operands.
+ * @param a The first operand.
+ * @param b The second operand.
+ * @returns A new MultiPolygon.
+ */
+export function intersection(
+  a: Polygon | MultiPolygon,
+  b: Polygon | MultiPolygon,
+): MultiPolygon {
+  return booleanOperation(a, b, BooleanOperation.Intersection)
+}
+
+/**
+ * Computes the area covered by the first operand but not by the second.
+ * @param a The operand to subtract from.
+ * @param b The operand to subtract.
+ * @returns A new MultiPolygon.
+ */
+export function difference(
+  a: Polygon | MultiPolygon,
+  b: Polygon | MultiPolygon,
+): MultiPolygon {
+  return booleanOperation(a, b, BooleanOperation.Difference)
+}
+
+/**
+ * Computes the area covered by exactly one of the operands.
+ * @param a The first operand.
+ * @param b The second operand.
+ * @returns A new MultiPolygon.
+ */
+export function xor(
+  a: Polygon | MultiPolygon,
+  b: Polygon | MultiPolygon,
+): MultiPolygon {
+  return booleanOperation(a, b, BooleanOperation.Xor)
+}
@@ -0,0 +1,1831 @@
+/**
+ * @file Bezier curves and compound paths, built on the primitives of geometry.ts.
+ * Follows the same conventions: chainable instance methods modify the curve in place,
+ * static methods and queries return new instances.
+ */
+
+import { Line, Matrix, Point, Polygon, Rectangle, Vector } from './geometry'
+
+/**
+ * The closest point on a curve or path to a given point.
+ */
+export interface NearestPoint {
+  /** The closest point on the curve. */
+  point: Point
+  /** The curve parameter of the closest point. */
+  t: number
+  /** The distance from the given point to the closest point. */
+  distance: number
+}
+
+/** Default flattening tolerance: the maximum distance between a curve and its polygon. */
+const DEFAULT_TOLERANCE = 0.25
+/** Limits the recursion depth when flattening degenerate curves. */
+const MAX_FLATTEN_DEPTH = 16
+
+// Nodes and weights of the 5-point Gauss-Legendre quadrature on [-1, 1]
+const GAUSS_NODES = [
+  0, -0.5384693101056831, 0.5384693101056831, -0.906179845938664,
+  0.906179845938664,
+]
+const GAUSS_WEIGHTS = [
+  0.5688888888888889, 0.47862867049936647, 0.47862867049936647,
+  0.23692688505618908, 0.23692688505618908,
+]
+
+/**
+ * Integrates the speed of a curve to get its arc length between two parameters.
+ * @param derivativeAt The derivative of the curve.
+ * @param t0 The start parameter.
+ * @param t1 The end parameter.
+ * @returns The arc length.
+ */
+function integrateLength(
+  derivativeAt: (t: number) => Vector,
+  t0: number,
+  t1: number,
+): number {
+  const intervals = 8
+  const half = (t1 - t0) / intervals / 2
+  let length = 0
+
+  for (let i = 0; i < intervals; i++) {
+    const mid = t0 + (2 * i + 1) * half
+    for (let j = 0; j < GAUSS_NODES.length; j++) {
+      const speed = derivativeAt(mid + half * GAUSS_NODES[j]).length()
+      length += GAUSS_WEIGHTS[j] * speed * half
+    }
+  }
+
+  return length
+}
+
+/**
+ * Finds the parameter at which the arc length from the start of a curve reaches a given value.
+ * @param derivativeAt The derivative of the curve.
+ * @param length The arc length from the start, clamped to the curve's length.
+ * @returns The parameter in [0, 1].
+ */
+function parameterAtLength(
+  derivativeAt: (t: number) => Vector,
+  length: number,
+): number {
+  let lo = 0
+  let hi = 1
+
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2
+    if (integrateLength(derivativeAt, 0, mid) < length) {
+      lo = mid
+    } else {
+      hi = mid
+    }
+  }
+
+  return (lo + hi) / 2
+}
+
+/**
+ * Finds the parameter of the point on a curve closest to a given point.
+ * Samples the curve, then narrows down around the best sample with a ternary search.
+ * @param pointAt The curve.
+ * @param point The point to get close to.
+ * @param samples The number of initial samples.
+ * @returns The closest point.
+ */
+function findNearest(
+  pointAt: (t: number) => Point,
+  point: Point,
+  samples: number,
+): NearestPoint {
+  let bestT = 0
+  let bestDistance = Infinity
+
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples
+    const distance = pointAt(t).distanceTo(point)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      bestT = t
+    }
+  }
+
+  let lo = Math.max(0, bestT - 1 / samples)
+  let hi = Math.min(1, bestT + 1 / samples)
+
+  for (let i = 0; i < 40; i++) {
+    const m1 = lo + (hi - lo) / 3
+    const m2 = hi - (hi - lo) / 3
+    if (pointAt(m1).distanceTo(point) < pointAt(m2).distanceTo(point)) {
+      hi = m2
+    } else {
+      lo = m1
+    }
+  }
+
+  const t = (lo + hi) / 2
+  const nearest = pointAt(t)
+  return { point: nearest, t, distance: nearest.distanceTo(point) }
+}
+
+/**
+ * Checks if the control polygon of a curve is within a tolerance of its chord.
+ * By the convex hull property, the curve itself is then within the tolerance too.
+ */
+function isFlat(points: Point[], tolerance: number): boolean {
+  const chord = new Line(points[0], points[points.length - 1])
+  return points
+    .slice(1, -1)
+    .every((point) => chord.distanceToPoint(point) <= tolerance)
+}
+
+/**
+ * Solves a * t^2 + b * t + c = 0.
+ * @returns The real roots within (0, 1).
+ */
+function rootsInUnitInterval(a: number, b: number, c: number): number[] {
+  const roots: number[] = []
+
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) > 1e-12) roots.push(-c / b)
+  } else {
+    const discriminant = b * b - 4 * a * c
+    if (discriminant >= 0) {
+      const sqrt = Math.sqrt(discriminant)
+      roots.push((-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a))
+    }
+  }
+
+  return roots.filter((t) => t > 0 && t < 1)
+}
+
+/**
+ * Represents a quadratic Bezier curve defined by a start point, a control point, and an end point.
+ */
+export class QuadraticBezier {
+  /** The starting point of the curve (t=0). */
+  public start: Point
+  /** The control point of the curve. */
+  public control: Point
+  /** The ending point of the curve (t=1). */
+  public end: Point
+
+  /**
+   * Creates a new QuadraticBezier instance.
+   * @param start The starting point. Defaults to Point.zero.
+   * @param control The control point. Defaults to Point.zero.
+   * @param end The ending point. Defaults to Point.zero.
+   */
+  constructor(
+    start: Point = Point.zero,
+    control: Point = Point.zero,
+    end: Point = Point.zero,
+  ) {
+    this.start = start
+    this.control = control
+    this.end = end
+  }
+
+  // Chainable methods
+
+  /**
+   * Translates (moves) the curve by given deltas.
+   * Modifies the points of this curve and returns it for chaining.
+   * @param dx The amount to move in the x-direction.
+   * @param dy The amount to move in the y-direction.
+   * @returns This curve after translation.
+   */
+  public translate(dx: number, dy: number): QuadraticBezier {
+    return this.transform(Matrix.translation(dx, dy))
+  }
+
+  /**
+   * Scales the curve relative to an origin point.
+   * Modifies the points of this curve and returns it for chaining.
+   * @param factor The scaling factor.
+   * @param origin The point about which to scale. Defaults to Point.zero.
+   * @returns This curve after scaling.
+   */
+  public scale(factor: number, origin: Point = Point.zero): QuadraticBezier {
+    return this.transform(Matrix.scaling(factor, factor, origin))
+  }
+
+  /**
+   * Rotates the curve around an origin point by a given angle.
+   * Modifies the points of this curve and returns it for chaining.
+   * @param angle The angle in radians.
+   * @param origin The point about which to rotate. Defaults to Point.zero.
+   * @returns This curve after rotation.
+   */
+  public rotate(angle: number, origin: Point = Point.zero): QuadraticBezier {
+    return this.transform(Matrix.rotation(angle, origin))
+  }
+
+  /**
+   * Transforms the curve by an affine matrix. Bezier curves are affine invariant, so this is exact.
+   * Modifies the points of this curve and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This curve after transformation.
+   */
+  public transform(matrix: Matrix): QuadraticBezier {
+    this.start.transform(matrix)
+    this.control.transform(matrix)
+    this.end.transform(matrix)
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Gets a point on the curve at a given parameter.
+   * @param t The parameter, between 0 (start) and 1 (end).
+   * @returns A new Point on the curve.
+   */
+  public pointAt(t: number): Point {
+    const mt = 1 - t
+    return new Point(
+      mt * mt * this.start.x + 2 * mt * t * this.control.x + t * t * this.end.x,
+      mt * mt * this.start.y + 2 * mt * t * this.control.y + t * t * this.end.y,
+    )
+  }
+
+  /**
+   * Calculates the derivative of the curve at a given parameter.
+   * @param t The parameter, between 0 and 1.
+   * @returns A new Vector; its length is the speed of the curve at t.
+   */
+  public derivativeAt(t: number): Vector {
+    const mt = 1 - t
+    return new Vector(
+      2 *
+        (mt * (this.control.x - this.start.x) +
+          t * (this.end.x - this.control.x)),
+      2 *
+        (mt * (this.control.y - this.start.y) +
+          t * (this.end.y - this.control.y)),
+    )
+  }
+
+  /**
+   * Calculates the unit tangent of the curve at a given parameter.
+   * Falls back to the chord direction where the derivative vanishes.
+   * @param t The parameter, between 0 and 1.
+   * @returns A new normalized Vector.
+   */
+  public tangentAt(t: number): Vector {
+    const derivative = this.derivativeAt(t)
+    if (derivative.length() > 1e-12) return derivative.normalize()
+    return new Vector(
+      this.end.x - this.start.x,
+      this.end.y - this.start.y,
+    ).normalize()
+  }
+
+  /**
+   * Calculates the unit normal of the curve at a given parameter (tangent rotated 90 degrees CCW).
+   * @param t The parameter, between 0 and 1.
+   * @returns A new normalized Vector.
+   */
+  public normalAt(t: number): Vector {
+    return this.tangentAt(t).perpendicular()
+  }
+
+  /**
+   * Calculates the arc length of the curve.
+   * @param t The parameter up to which to measure. Defaults to 1 (the whole curve).
+   * @returns The arc length.
+   */
+  public length(t: number = 1): number {
+    return integrateLength((u) => this.derivativeAt(u), 0, t)
+  }
+
+  /**
+   * Finds the parameter at a given arc length from the start of the curve.
+   * @param length The arc length.
+   * @returns The parameter, between 0 and 1.
+   */
+  public parameterAtLength(length: number): number {
+    return parameterAtLength((u) => this.derivativeAt(u), length)
+  }
+
+  /**
+   * Splits the curve into two at a given parameter, using de Casteljau's algorithm.
+   * @param t The parameter, between 0 and 1.
+   * @returns Two new curves covering [0, t] and [t, 1].
+   */
+  public split(t: number): [QuadraticBezier, QuadraticBezier] {
+    const p01 = Point.lerp(this.start, this.control, t)
+    const p12 = Point.lerp(this.control, this.end, t)
+    const mid = Point.lerp(p01, p12, t)
+
+    return [
+      new QuadraticBezier(this.start.clone(), p01, mid),
+      new QuadraticBezier(mid.clone(), p12, this.end.clone()),
+    ]
+  }
+
+  /**
+   * Calculates the tight axis-aligned bounding box of the curve (not of its control points).
+   * @returns A new Rectangle representing the bounding box.
+   */
+  public boundingBox(): Rectangle {
+    const { start, control, end } = this
+    const ts = [
+      ...rootsInUnitInterval(
+        0,
+        start.x - 2 * control.x + end.x,
+        control.x - start.x,
+      ),
+      ...rootsInUnitInterval(
+        0,
+        start.y - 2 * control.y + end.y,
+        control.y - start.y,
+      ),
+    ]
+    return new Polygon([
+      start,
+      end,
+      ...ts.map((t) => this.pointAt(t)),
+    ]).boundingBox()
+  }
+
+  /**
+   * Finds the point on the curve closest to a given point.
+   * @param point The point.
+   * @returns The closest point, its parameter and its distance.
+   */
+  public nearestPoint(point: Point): NearestPoint {
+    return findNearest((t) => this.pointAt(t), point, 24)
+  }
+
+  /**
+   * Calculates the shortest distance from a point to this curve.
+   * @param point The point.
+   * @returns The distance.
+   */
+  public distanceToPoint(point: Point): number {
+    return this.nearestPoint(point).distance
+  }
+
+  /**
+   * Approximates the curve with an open polygon.
+   * @param tolerance The maximum distance between the curve and the polygon. Defaults to 0.25.
+   * @returns A new Polygon starting at the start point and ending at the end point.
+   */
+  public toPolygon(tolerance: number = DEFAULT_TOLERANCE): Polygon {
+    return new Polygon(this.toCubic().flatten(tolerance))
+  }
+
+  /**
+   * Converts this curve to an equivalent cubic Bezier curve (degree elevation).
+   * @returns A new CubicBezier tracing the same curve.
+   */
+  public toCubic(): CubicBezier {
+    return new CubicBezier(
+      this.start.clone(),
+      Point.lerp(this.start, this.control, 2 / 3),
+      Point.lerp(this.end, this.control, 2 / 3),
+      this.end.clone(),
+    )
+  }
+
+  /**
+   * Creates a new QuadraticBezier instance with the same points as this curve.
+   * @returns A new QuadraticBezier instance (a clone).
+   */
+  public clone(): QuadraticBezier {
+    return new QuadraticBezier(
+      this.start.clone(),
+      this.control.clone(),
+      this.end.clone(),
+    )
+  }
+
+  /**
+   * Checks if this curve is equal to another curve within a given tolerance.
+   * @param curve The curve to compare with.
+   * @param tolerance The maximum difference allowed for coordinates to be considered equal. Defaults to 1e-10.
+   * @returns True if the curves are equal within tolerance, false otherwise.
+   */
+  public equals(curve: QuadraticBezier, tolerance: number = 1e-10): boolean {
+    return (
+      this.start.equals(curve.start, tolerance) &&
+      this.control.equals(curve.control, tolerance) &&
+      this.end.equals(curve.end, tolerance)
+    )
+  }
+
+  /**
+   * Returns a string representation of this curve.
+   * @returns A string in the format "QuadraticBezier(Point(x, y), Point(x, y), Point(x, y))".
+   */
+  public toString(): string {
+    return `QuadraticBezier(${this.start.toString()}, ${this.control.toString()}, ${this.end.toString()})`
+  }
+}
+
+/**
+ * Represents a cubic Bezier curve defined by a start point, two control points, and an end point.
+ */
+export class CubicBezier {
+  /** The starting point of the curve (t=0). */
+  public start: Point
+  /** The control point attached to the start point. */
+  public control1: Point
+  /** The control point attached to the end point. */
+  public control2: Point
+  /** The ending point of the curve (t=1). */
+  public end: Point
+
+  /**
+   * Creates a new CubicBezier instance.
+   * @param start The starting point. Defaults to Point.zero.
+   * @param control1 The first control point. Defaults to Point.zero.
+   * @param control2 The second control point. Defaults to Point.zero.
+   * @param end The ending point. Defaults to Point.zero.
+   */
+  constructor(
+    start: Point = Point.zero,
+    control1: Point = Point.zero,
+    control2: Point = Point.zero,
+    end: Point = Point.zero,
+  ) {
+    this.start = start
+    this.control1 = control1
+    this.control2 = control2
+    this.end = end
+  }
+
+  // Chainable methods
+
+  /**
+   * Translates (moves) the curve by given deltas.
+   * Modifies the points of this curve and returns it for chaining.
+   * @param dx The amount to move in the x-direction.
+   * @param dy The amount to move in the y-direction.
+   * @returns This curve after translation.
+   */
+  public translate(dx: number, dy: number): CubicBezier {
+    return this.transform(Matrix.translation(dx, dy))
+  }
+
+  /**
+   * Scales the curve relative to an origin point.
+   * Modifies the points of this curve and returns it for chaining.
+   * @param factor The scaling factor.
+   * @param origin The point about which to scale. Defaults to Point.zero.
+   * @returns This curve after scaling.
+   */
+  public scale(factor: number, origin: Point = Point.zero): CubicBezier {
+    return this.transform(Matrix.scaling(factor, factor, origin))
+  }
+
+  /**
+   * Rotates the curve around an origin point by a given angle.
+   * Modifies the points of this curve and returns it for chaining.
+   * @param angle The angle in radians.
+   * @param origin The point about which to rotate. Defaults to Point.zero.
+   * @returns This curve after rotation.
+   */
+  public rotate(angle: number, origin: Point = Point.zero): CubicBezier {
+    return this.transform(Matrix.rotation(angle, origin))
+  }
+
+  /**
+   * Transforms the curve by an affine matrix. Bezier curves are affine invariant, so this is exact.
+   * Modifies the points of this curve and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This curve after transformation.
+   */
+  public transform(matrix: Matrix): CubicBezier {
+    this.start.transform(matrix)
+    this.control1.transform(matrix)
+    this.control2.transform(matrix)
+    this.end.transform(matrix)
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Gets a point on the curve at a given parameter.
+   * @param t The parameter, between 0 (start) and 1 (end).
+   * @returns A new Point on the curve.
+   */
+  public pointAt(t: number): Point {
+    const mt = 1 - t
+    const a = mt * mt * mt
+    const b = 3 * mt * mt * t
+    const c = 3 * mt * t * t
+    const d = t * t * t
+    return new Point(
+      a * this.start.x +
+        b * this.control1.x +
+        c * this.control2.x +
+        d * this.end.x,
+      a * this.start.y +
+        b * this.control1.y +
+        c * this.control2.y +
+        d * this.end.y,
+    )
+  }
+
+  /**
+   * Calculates the derivative of the curve at a given parameter.
+   * @param t The parameter, between 0 and 1.
+   * @returns A new Vector; its length is the speed of the curve at t.
+   */
+  public derivativeAt(t: number): Vector {
+    const mt = 1 - t
+    const a = 3 * mt * mt
+    const b = 6 * mt * t
+    const c = 3 * t * t
+    return new Vector(
+      a * (this.control1.x - this.start.x) +
+        b * (this.control2.x - this.control1.x) +
+        c * (this.end.x - this.control2.x),
+      a * (this.control1.y - this.start.y) +
+        b * (this.control2.y - this.control1.y) +
+        c * (this.end.y - this.control2.y),
+    )
+  }
+
+  /**
+   * Calculates the unit tangent of the curve at a given parameter.
+   * Where the derivative vanishes (e.g. a control point on its end point), the direction
+   * towards the next distinct control point is used instead.
+   * @param t The parameter, between 0 and 1.
+   * @returns A new normalized Vector.
+   */
+  public tangentAt(t: number): Vector {
+    const derivative = this.derivativeAt(t)
+    if (derivative.length() > 1e-12) return derivative.normalize()
+
+    const points = [this.start, this.control1, this.control2, this.end]
+    const from = t < 0.5 ? points[0] : points[1]
+    const to =
+      points.find((p, i) => i > points.indexOf(from) && !p.equals(from)) ??
+      this.end
+    return new Vector(to.x - from.x, to.y - from.y).normalize()
+  }
+
+  /**
+   * Calculates the unit normal of the curve at a given parameter (tangent rotated 90 degrees CCW).
+   * @param t The parameter, between 0 and 1.
+   * @returns A new normalized Vector.
+   */
+  public normalAt(t: number): Vector {
+    return this.tangentAt(t).perpendicular()
+  }
+
+  /**
+   * Calculates the arc length of the curve.
+   * @param t The parameter up to which to measure. Defaults to 1 (the whole curve).
+   * @returns The arc length.
+   */
+  public length(t: number = 1): number {
+    return integrateLength((u) => this.derivativeAt(u), 0, t)
+  }
+
+  /**
+   * Finds the parameter at a given arc length from the start of the curve.
+   * @param length The arc length.
+   * @returns The parameter, between 0 and 1.
+   */
+  public parameterAtLength(length: number): number {
+    return parameterAtLength((u) => this.derivativeAt(u), length)
+  }
+
+  /**
+   * Splits the curve into two at a given parameter, using de Casteljau's algorithm.
+   * @param t The parameter, between 0 and 1.
+   * @returns Two new curves covering [0, t] and [t, 1].
+   */
+  public split(t: number): [CubicBezier, CubicBezier] {
+    const p01 = Point.lerp(this.start, this.control1, t)
+    const p12 = Point.lerp(this.control1, this.control2, t)
+    const p23 = Point.lerp(this.control2, this.end, t)
+    const p012 = Point.lerp(p01, p12, t)
+    const p123 = Point.lerp(p12, p23, t)
+    const mid = Point.lerp(p012, p123, t)
+
+    return [
+      new CubicBezier(this.start.clone(), p01, p012, mid),
+      new CubicBezier(mid.clone(), p123, p23, this.end.clone()),
+    ]
+  }
+
+  /**
+   * Calculates the tight axis-aligned bounding box of the curve (not of its control points).
+   * @returns A new Rectangle representing the bounding box.
+   */
+  public boundingBox(): Rectangle {
+    const { start: p0, control1: p1, control2: p2, end: p3 } = this
+    // Roots of the derivative, divided by 3: a * t^2 + b * t + c
+    const ts = [
+      ...rootsInUnitInterval(
+        -p0.x + 3 * p1.x - 3 * p2.x + p3.x,
+        2 * (p0.x - 2 * p1.x + p2.x),
+        p1.x - p0.x,
+      ),
+      ...rootsInUnitInterval(
+        -p0.y + 3 * p1.y - 3 * p2.y + p3.y,
+        2 * (p0.y - 2 * p1.y + p2.y),
+        p1.y - p0.y,
+      ),
+    ]
+    return new Polygon([
+      p0,
+      p3,
+      ...ts.map((t) => this.pointAt(t)),
+    ]).boundingBox()
+  }
+
+  /**
+   * Finds the point on the curve closest to a given point.
+   * @param point The point.
+   * @returns The closest point, its parameter and its distance.
+   */
+  public nearestPoint(point: Point): NearestPoint {
+    return findNearest((t) => this.pointAt(t), point, 32)
+  }
+
+  /**
+   * Calculates the shortest distance from a point to this curve.
+   * @param point The point.
+   * @returns The distance.
+   */
+  public distanceToPoint(point: Point): number {
+    return this.nearestPoint(point).distance
+  }
+
+  /**
+   * Approximates the curve with points by recursive subdivision.
+   * @param tolerance The maximum distance between the curve and the polyline.
+   * @returns New points, including the start and end points.
+   */
+  public flatten(tolerance: number = DEFAULT_TOLERANCE): Point[] {
+    const points: Point[] = [this.start.clone()]
+
+    const subdivide = (curve: CubicBezier, depth: number) => {
+      const controlPolygon = [
+        curve.start,
+        curve.control1,
+        curve.control2,
+        curve.end,
+      ]
+      if (depth >= MAX_FLATTEN_DEPTH || isFlat(controlPolygon, tolerance)) {
+        points.push(curve.end.clone())
+        return
+      }
+      const [first, second] = curve.split(0.5)
+      subdivide(first, depth + 1)
+      subdivide(second, depth + 1)
+    }
+
+    subdivide(this, 0)
+    return points
+  }
+
+  /**
+   * Approximates the curve with an open polygon.
+   * @param tolerance The maximum distance between the curve and the polygon. Defaults to 0.25.
+   * @returns A new Polygon starting at the start point and ending at the end point.
+   */
+  public toPolygon(tolerance: number = DEFAULT_TOLERANCE): Polygon {
+    return new Polygon(this.flatten(tolerance))
+  }
+
+  /**
+   * Creates a new CubicBezier instance with the same points as this curve.
+   * @returns A new CubicBezier instance (a clone).
+   */
+  public clone(): CubicBezier {
+    return new CubicBezier(
+      this.start.clone(),
+      this.control1.clone(),
+      this.control2.clone(),
+      this.end.clone(),
+    )
+  }
+
+  /**
+   * Checks if this curve is equal to another curve within a given tolerance.
+   * @param curve The curve to compare with.
+   * @param tolerance The maximum difference allowed for coordinates to be considered equal. Defaults to 1e-10.
+   * @returns True if the curves are equal within tolerance, false otherwise.
+   */
+  public equals(curve: CubicBezier, tolerance: number = 1e-10): boolean {
+    return (
+      this.start.equals(curve.start, tolerance) &&
+      this.control1.equals(curve.control1, tolerance) &&
+      this.control2.equals(curve.control2, tolerance) &&
+      this.end.equals(curve.end, tolerance)
+    )
+  }
+
+  /**
+   * Returns a string representation of this curve.
+   * @returns A string in the format "CubicBezier(Point(x, y), Point(x, y), Point(x, y), Point(x, y))".
+   */
+  public toString(): string {
+    return `CubicBezier(${this.start.toString()}, ${this.control1.toString()}, ${this.control2.toString()}, ${this.end.toString()})`
+  }
+
+  // Static methods
+
+  /**
+   * Creates cubic curves approximating a circular arc. The arc is split into pieces of
+   * at most 90 degrees, each within about 0.03% of the radius of the true arc.
+   * @param center The center of the arc.
+   * @param radius The radius of the arc.
+   * @param startAngle The start angle in radians.
+   * @param endAngle The end angle in radians.
+   * @returns New curves in order from the start angle to the end angle.
+   */
+  public static fromArc(
+    center: Point,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+  ): CubicBezier[] {
+    const sweep = endAngle - startAngle
+    const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9))
+    const step = sweep / count
+    const k = (4 / 3) * Math.tan(step / 4) * radius
+
+    const curves: CubicBezier[] = []
+    for (let i = 0; i < count; i++) {
+      const a0 = startAngle + i * step
+      const a1 = a0 + step
+      const start = Point.add(center, Vector.fromAngle(a0, radius))
+      const end = Point.add(center, Vector.fromAngle(a1, radius))
+      curves.push(
+        new CubicBezier(
+          start,
+          Point.add(start, Vector.fromAngle(a0 + Math.PI / 2, k)),
+          Point.add(end, Vector.fromAngle(a1 - Math.PI / 2, k)),
+          end,
+        ),
+      )
+    }
+    return curves
+  }
+}
+
+export const PathCommandType = {
+  MoveTo: 'M',
+  LineTo: 'L',
+  QuadraticCurveTo: 'Q',
+  BezierCurveTo: 'C',
+  Arc: 'A',
+  ClosePath: 'Z',
+} as const
+
+export type PathCommandType = Enum<typeof PathCommandType>
+
+/**
+ * A drawing command of a Path, with the same meaning as the Canvas API method of the same name.
+ * All coordinates are absolute.
+ */
+export type PathCommand =
+  | { type: typeof PathCommandType.MoveTo; to: Point }
+  | { type: typeof PathCommandType.LineTo; to: Point }
+  | { type: typeof PathCommandType.QuadraticCurveTo; control: Point; to: Point }
+  | {
+      type: typeof PathCommandType.BezierCurveTo
+      control1: Point
+      control2: Point
+      to: Point
+    }
+  | {
+      type: typeof PathCommandType.Arc
+      center: Point
+      radius: number
+      startAngle: number
+      endAngle: number
+      counterclockwise: boolean
+    }
+  | { type: typeof PathCommandType.ClosePath }
+
+/** A piece of a path between two points. */
+export type PathSegment = Line | QuadraticBezier | CubicBezier
+
+/** The segments of one subpath, i.e. a run of commands started by a move. */
+interface Subpath {
+  segments: PathSegment[]
+  closed: boolean
+}
+
+function clonePathCommand(command: PathCommand): PathCommand {
+  switch (command.type) {
+    case PathCommandType.MoveTo:
+    case PathCommandType.LineTo:
+      return { type: command.type, to: command.to.clone() }
+    case PathCommandType.QuadraticCurveTo:
+      return {
+        ...command,
+        control: command.control.clone(),
+        to: command.to.clone(),
+      }
+    case PathCommandType.BezierCurveTo:
+      return {
+        ...command,
+        control1: command.control1.clone(),
+        control2: command.control2.clone(),
+        to: command.to.clone(),
+      }
+    case PathCommandType.Arc:
+      return { ...command, center: command.center.clone() }
+    case PathCommandType.ClosePath:
+      return { type: command.type }
+  }
+}
+
+/**
+ * Gets the sweep of a canvas arc, in radians. Positive is clockwise on screen (y down).
+ */
+function getArcSweep(
+  startAngle: number,
+  endAngle: number,
+  counterclockwise: boolean,
+): number {
+  const fullTurn = Math.PI * 2
+  let sweep = endAngle - startAngle
+
+  if (!counterclockwise) {
+    if (sweep >= fullTurn) return fullTurn
+    sweep = ((sweep % fullTurn) + fullTurn) % fullTurn
+  } else {
+    if (sweep <= -fullTurn) return -fullTurn
+    sweep = -(((-sweep % fullTurn) + fullTurn) % fullTurn)
+  }
+  return sweep
+}
+
+/** The number of parameters of each SVG path command. */
+const SVG_PARAMETER_COUNTS: Record<string, number> = {
+  M: 2,
+  L: 2,
+  H: 1,
+  V: 1,
+  C: 6,
+  S: 4,
+  Q: 4,
+  T: 2,
+  A: 7,
+  Z: 0,
+}
+
+const SVG_NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y
+const SVG_SEPARATORS = /[\s,]*/y
+
+/** An SVG path command as written, e.g. `l` with the values of one coordinate pair. */
+interface SVGCommand {
+  letter: string
+  values: number[]
+}
+
+/**
+ * Splits SVG path data into commands. Repeated parameter groups become separate commands,
+ * with the extra pairs of a move becoming lines, so "m0 0 10 10" gives an `m` and an `l`.
+ * @throws If the data isn't valid path data.
+ */
+function parseSVGCommands(d: string): SVGCommand[] {
+  const commands: SVGCommand[] = []
+  let index = 0
+
+  const fail = () => new Error(`Invalid SVG path data at position ${index}`)
+  const skipSeparators = () => {
+    SVG_SEPARATORS.lastIndex = index
+    SVG_SEPARATORS.exec(d)
+    index = SVG_SEPARATORS.lastIndex
+  }
+  const readNumber = () => {
+    SVG_NUMBER.lastIndex = index
+    const match = SVG_NUMBER.exec(d)
+    if (!match) throw fail()
+    index = SVG_NUMBER.lastIndex
+    return Number(match[0])
+  }
+  // Arc flags are single digits and may be written without separators, as in "a5 5 0 0110 10"
+  const readFlag = () => {
+    if (d[index] !== '0' && d[index] !== '1') throw fail()
+    return Number(d[index++])
+  }
+  const isCommandAt = (i: number) => d[i]?.toUpperCase() in SVG_PARAMETER_COUNTS
+
+  skipSeparators()
+  while (index < d.length) {
+    if (!isCommandAt(index)) throw fail()
+    if (commands.length === 0 && d[index].toUpperCase() !== 'M') throw fail()
+
+    let letter = d[index++]
+    const type = letter.toUpperCase()
+    const count = SVG_PARAMETER_COUNTS[type]
+    skipSeparators()
+
+    if (count === 0) {
+      commands.push({ letter, values: [] })
+      continue
+    }
+
+    do {
+      const values: number[] = []
+      for (let i = 0; i < count; i++) {
+        values.push(
+          type === 'A' && (i === 3 || i === 4) ? readFlag() : readNumber(),
+        )
+        skipSeparators()
+      }
+      commands.push({ letter, values })
+      if (type === 'M') letter = letter === 'M' ? 'L' : 'l'
+    } while (index < d.length && !isCommandAt(index))
+  }
+
+  return commands
+}
+
+/**
+ * Converts an SVG elliptical arc, given by its end points, to cubic curves.
+ * Out-of-range radii are scaled up as the SVG specification requires.
+ * @returns New curves from `from` to `to`, or null if a radius is zero and the arc is a line.
+ */
+function svgArcToCubics(
+  from: Point,
+  radiusX: number,
+  radiusY: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point,
+): CubicBezier[] | null {
+  if (from.equals(to)) return []
+  let rx = Math.abs(radiusX)
+  let ry = Math.abs(radiusY)
+  if (rx === 0 || ry === 0) return null
+
+  // The midpoint of the chord in the ellipse's own axes, relative to the center of the chord
+  const cos = Math.cos(rotation)
+  const sin = Math.sin(rotation)
+  const dx = (from.x - to.x) / 2
+  const dy = (from.y - to.y) / 2
+  const x1 = cos * dx + sin * dy
+  const y1 = -sin * dx + cos * dy
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1
+  const coefficient =
+    (largeArc === sweep ? -1 : 1) *
+    Math.sqrt(Math.max(0, numerator / denominator))
+  const cx = (coefficient * rx * y1) / ry
+  const cy = (-coefficient * ry * x1) / rx
+
+  const startAngle = Math.atan2((y1 - cy) / ry, (x1 - cx) / rx)
+  const endAngle = Math.atan2((-y1 - cy) / ry, (-x1 - cx) / rx)
+  let delta = endAngle - startAngle
+  if (sweep && delta < 0) delta += Math.PI * 2
+  if (!sweep && delta > 0) delta -= Math.PI * 2
+
+  // Trace the arc on the unit circle, then map the unit circle onto the ellipse
+  const matrix = Matrix.compose({
+    translateX: cos * cx - sin * cy + (from.x + to.x) / 2,
+    translateY: sin * cx + cos * cy + (from.y + to.y) / 2,
+    rotation,
+    scaleX: rx,
+    scaleY: ry,
+  })
+  const curves = CubicBezier.fromArc(
+    Point.zero,
+    1,
+    startAngle,
+    startAngle + delta,
+  ).map((curve) => curve.transform(matrix))
+
+  curves[0].start = from.clone()
+  curves[curves.length - 1].end = to.clone()
+  return curves
+}
+
+/**
+ * Formats a number for SVG path data, without trailing zeros or a negative zero.
+ */
+function formatSVGNumber(value: number, precision: number): string {
+  const rounded = Number(value.toFixed(precision))
+  return String(rounded === 0 ? 0 : rounded)
+}
+
+/**
+ * Represents a compound path made of lines, Bezier curves and circular arcs, possibly in
+ * several subpaths. Mirrors the path building methods of the Canvas API.
+ */
+export class Path {
+  /** The commands of the path, in drawing order. */
+  public commands: PathCommand[]
+
+  /**
+   * Creates a new Path instance.
+   * @param commands The commands of the path. They are cloned. Defaults to an empty array.
+   */
+  constructor(commands: PathCommand[] = []) {
+    this.commands = commands.map(clonePathCommand)
+  }
+
+  // Chainable methods
+
+  /**
+   * Starts a new subpath at a point.
+   * Modifies this path and returns it for chaining.
+   * @param point The start point. It is cloned.
+   * @returns This path.
+   */
+  public moveTo(point: Point): Path {
+    this.commands.push({ type: PathCommandType.MoveTo, to: point.clone() })
+    return this
+  }
+
+  /**
+   * Adds a straight line from the current point.
+   * Modifies this path and returns it for chaining.
+   * @param point The end point. It is cloned.
+   * @returns This path.
+   */
+  public lineTo(point: Point): Path {
+    this.commands.push({ type: PathCommandType.LineTo, to: point.clone() })
+    return this
+  }
+
+  /**
+   * Adds a quadratic Bezier curve from the current point.
+   * Modifies this path and returns it for chaining.
+   * @param control The control point. It is cloned.
+   * @param point The end point. It is cloned.
+   * @returns This path.
+   */
+  public quadraticCurveTo(control: Point, point: Point): Path {
+    this.commands.push({
+      type: PathCommandType.QuadraticCurveTo,
+      control: control.clone(),
+      to: point.clone(),
+    })
+    return this
+  }
+
+  /**
+   * Adds a cubic Bezier curve from the current point.
+   * Modifies this path and returns it for chaining.
+   * @param control1 The first control point. It is cloned.
+   * @param control2 The second control point. It is cloned.
+   * @param point The end point. It is cloned.
+   * @returns This path.
+   */
+  public bezierCurveTo(control1: Point, control2: Point, point: Point): Path {
+    this.commands.push({
+      type: PathCommandType.BezierCurveTo,
+      control1: control1.clone(),
+      control2: control2.clone(),
+      to: point.clone(),
+    })
+    return this
+  }
+
+  /**
+   * Adds a circular arc. Like `ctx.arc`, a straight line connects the current point to the start of the arc.
+   * Modifies this path and returns it for chaining.
+   * @param center The center of the arc. It is cloned.
+   * @param radius The radius of the arc.
+   * @param startAngle The start angle in radians.
+   * @param endAngle The end angle in radians.
+   * @param counterclockwise Whether to draw the arc counter-clockwise. Defaults to false.
+   * @returns This path.
+   */
+  public arc(
+    center: Point,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise: boolean = false,
+  ): Path {
+    this.commands.push({
+      type: PathCommandType.Arc,
+      center: center.clone(),
+      radius,
+      startAngle,
+      endAngle,
+      counterclockwise,
+    })
+    return this
+  }
+
+  /**
+   * Closes the current subpath with a straight line back to its start.
+   * Modifies this path and returns it for chaining.
+   * @returns This path.
+   */
+  public closePath(): Path {
+    this.commands.push({ type: PathCommandType.ClosePath })
+    return this
+  }
+
+  /**
+   * Translates (moves) the path by given deltas.
+   * Modifies this path and returns it for chaining.
+   * @param dx The amount to move in the x-direction.
+   * @param dy The amount to move in the y-direction.
+   * @returns This path after translation.
+   */
+  public translate(dx: number, dy: number): Path {
+    return this.transform(Matrix.translation(dx, dy))
+  }
+
+  /**
+   * Scales the path relative to an origin point.
+   * Modifies this path and returns it for chaining.
+   * @param factor The scaling factor.
+   * @param origin The point about which to scale. Defaults to Point.zero.
+   * @returns This path after scaling.
+   */
+  public scale(factor: number, origin: Point = Point.zero): Path {
+    return this.transform(Matrix.scaling(factor, factor, origin))
+  }
+
+  /**
+   * Rotates the path around an origin point by a given angle.
+   * Modifies this path and returns it for chaining.
+   * @param angle The angle in radians.
+   * @param origin The point about which to rotate. Defaults to Point.zero.
+   * @returns This path after rotation.
+   */
+  public rotate(angle: number, origin: Point = Point.zero): Path {
+    return this.transform(Matrix.rotation(angle, origin))
+  }
+
+  /**
+   * Transforms the path by an affine matrix.
+   * Arcs are first replaced by equivalent cubic curves, since a transformed circular arc is in
+   * general elliptical; all other commands are transformed exactly.
+   * Modifies this path and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This path after transformation.
+   */
+  public transform(matrix: Matrix): Path {
+    const commands: PathCommand[] = []
+    let current: Point | null = null
+
+    for (const command of this.commands) {
+      if (command.type === PathCommandType.Arc) {
+        const arcs = Path.arcToCubics(command)
+        commands.push({
+          type: current ? PathCommandType.LineTo : PathCommandType.MoveTo,
+          to: arcs[0].start.clone(),
+        })
+        arcs.forEach((arc) =>
+          commands.push({
+            type: PathCommandType.BezierCurveTo,
+            control1: arc.control1,
+            control2: arc.control2,
+            to: arc.end,
+          }),
+        )
+        current = arcs[arcs.length - 1].end
+      } else {
+        commands.push(command)
+        if (command.type !== PathCommandType.ClosePath) current = command.to
+      }
+    }
+
+    for (const command of commands) {
+      switch (command.type) {
+        case PathCommandType.QuadraticCurveTo:
+          command.control.transform(matrix)
+          break
+        case PathCommandType.BezierCurveTo:
+          command.control1.transform(matrix)
+          command.control2.transform(matrix)
+          break
+      }
+      if ('to' in command) command.to.transform(matrix)
+    }
+
+    this.commands = commands
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Checks if the last subpath of the path is closed.
+   * @returns True if the path ends with a close command, false otherwise.
+   */
+  public isClosed(): boolean {
+    return (
+      this.commands[this.commands.length - 1]?.type ===
+      PathCommandType.ClosePath
+    )
+  }
+
+  /**
+   * Gets the geometric segments of each subpath. Arcs become cubic curves, the implicit line
+   * before an arc and the line closing a subpath become Lines. Zero-length lines are skipped.
+   */
+  private subpaths(): Subpath[] {
+    const subpaths: Subpath[] = []
+    let current: Subpath | null = null
+    let start: Point | null = null
+    let point: Point | null = null
+
+    const lineTo = (to: Point) => {
+      if (point && current && !point.equals(to)) {
+        current.segments.push(new Line(point.clone(), to.clone()))
+      }
+    }
+
+    for (const command of this.commands) {
+      if (command.type === PathCommandType.ClosePath) {
+        if (current && start) {
+          lineTo(start)
+          current.closed = true
+          point = start
+          current = null
+        }
+        continue
+      }
+
+      // A subpath without a move to, after a close path, starts where the closed one did:
+      // `point` and `start` are still at its start, as SVG specifies
+      if (command.type === PathCommandType.MoveTo || !current) {
+        current = { segments: [], closed: false }
+        subpaths.push(current)
+      }
+
+      switch (command.type) {
+        case PathCommandType.MoveTo:
+          point = command.to
+          start = command.to
+          break
+        case PathCommandType.LineTo:
+          start ??= command.to
+          lineTo(command.to)
+          point = command.to
+          break
+        case PathCommandType.QuadraticCurveTo:
+          if (point) {
+            current.segments.push(
+              new QuadraticBezier(
+                point.clone(),
+                command.control.clone(),
+                command.to.clone(),
+              ),
+            )
+          }
+          start ??= command.to
+          point = command.to
+          break
+        case PathCommandType.BezierCurveTo:
+          if (point) {
+            current.segments.push(
+              new CubicBezier(
+                point.clone(),
+                command.control1.clone(),
+                command.control2.clone(),
+                command.to.clone(),
+              ),
+            )
+          }
+          start ??= command.to
+          point = command.to
+          break
+        case PathCommandType.Arc: {
+          const arcs = Path.arcToCubics(command)
+          lineTo(arcs[0].start)
+          start ??= arcs[0].start
+          current.segments.push(...arcs)
+          point = arcs[arcs.length - 1].end
+          break
+        }
+      }
+    }
+
+    return subpaths
+  }
+
+  /**
+   * Gets the geometric segments of the path, across all subpaths.
+   * Arcs are approximated by cubic curves and closing lines are included.
+   * @returns New segments in drawing order.
+   */
+  public segments(): PathSegment[] {
+    return this.subpaths().flatMap((subpath) => subpath.segments)
+  }
+
+  /**
+   * Calculates the total length of the path.
+   * @returns The sum of the arc lengths of all segments.
+   */
+  public length(): number {
+    return this.segments().reduce(
+      (total, segment) => total + segment.length(),
+      0,
+    )
+  }
+
+  /**
+   * Finds the segment at a fraction of the path's length.
+   * @returns The segment and the parameter on it, or null if the path is empty.
+   */
+  private locate(
+    t: number,
+  ): { index: number; segment: PathSegment; t: number } | null {
+    const segments = this.segments()
+    if (segments.length === 0) return null
+
+    const lengths = segments.map((segment) => segment.length())
+    const total = lengths.reduce((sum, length) => sum + length, 0)
+    let remaining = Math.max(0, Math.min(1, t)) * total
+
+    for (let i = 0; i < segments.length; i++) {
+      if (remaining <= lengths[i] || i === segments.length - 1) {
+        const segment = segments[i]
+        const local =
+          lengths[i] === 0
+            ? 0
+            : segment instanceof Line
+              ? Math.min(1, remaining / lengths[i])
+              : segment.parameterAtLength(remaining)
+        return { index: i, segment, t: local }
+      }
+      remaining -= lengths[i]
+    }
+    return null
+  }
+
+  /**
+   * Gets a point at a fraction of the path's length.
+   * @param t The fraction of the total length, between 0 and 1.
+   * @returns A new Point, or null if the path has no segments.
+   */
+  public pointAt(t: number): Point | null {
+    const location = this.locate(t)
+    return location ? location.segment.pointAt(location.t) : null
+  }
+
+  /**
+   * Calculates the unit tangent at a fraction of the path's length.
+   * @param t The fraction of the total length, between 0 and 1.
+   * @returns A new normalized Vector, or null if the path has no segments.
+   */
+  public tangentAt(t: number): Vector | null {
+    const location = this.locate(t)
+    if (!location) return null
+
+    const { segment } = location
+    return segment instanceof Line
+      ? segment.direction().normalize()
+      : segment.tangentAt(location.t)
+  }
+
+  /**
+   * Splits the path into two at a fraction of its length.
+   * Arcs are converted to cubic curves in the result. A closed subpath that is cut is left open.
+   * @param t The fraction of the total length, between 0 and 1.
+   * @returns Two new paths.
+   */
+  public split(t: number): [Path, Path] {
+    const location = this.locate(t)
+    const first = new Path()
+    const second = new Path()
+    if (!location) return [first, second]
+
+    const appendSegment = (path: Path, segment: PathSegment, move: boolean) => {
+      if (move) path.moveTo(segment.start)
+      if (segment instanceof Line) {
+        path.lineTo(segment.end)
+      } else if (segment instanceof QuadraticBezier) {
+        path.quadraticCurveTo(segment.control, segment.end)
+      } else {
+        path.bezierCurveTo(segment.control1, segment.control2, segment.end)
+      }
+    }
+
+    let index = 0
+    for (const subpath of this.subpaths()) {
+      const from = index
+      const to = index + subpath.segments.length
+      index = to
+
+      if (to <= location.index) {
+        subpath.segments.forEach((segment, i) =>
+          appendSegment(first, segment, i === 0),
+        )
+        if (subpath.closed) first.closePath()
+      } else if (from > location.index) {
+        subpath.segments.forEach((segment, i) =>
+          appendSegment(second, segment, i === 0),
+        )
+        if (subpath.closed) second.closePath()
+      } else {
+        const cut = location.index - from
+        subpath.segments
+          .slice(0, cut)
+          .forEach((segment, i) => appendSegment(first, segment, i === 0))
+
+        const [head, tail] =
+          location.segment instanceof Line
+            ? [
+                new Line(
+                  location.segment.start.clone(),
+                  location.segment.pointAt(location.t),
+                ),
+                new Line(
+                  location.segment.pointAt(location.t),
+                  location.segment.end.clone(),
+                ),
+              ]
+            : location.segment.split(location.t)
+        appendSegment(first, head, cut === 0)
+        appendSegment(second, tail, true)
+
+        subpath.segments
+          .slice(cut + 1)
+          .forEach((segment) => appendSegment(second, segment, false))
+      }
+    }
+
+    return [first, second]
+  }
+
+  /**
+   * Calculates the tight axis-aligned bounding box of the path.
+   * @returns A new Rectangle representing the bounding box. Returns an empty Rectangle if the path has no segments.
+   */
+  public boundingBox(): Rectangle {
+    const segments = this.segments()
+    if (segments.length === 0) {
+      const move = this.commands.find((command) => 'to' in command)
+      return move && 'to' in move
+        ? new Rectangle(move.to.x, move.to.y)
+        : new Rectangle()
+    }
+
+    return segments
+      .map((segment) => segment.boundingBox())
+      .reduce((box, segmentBox) => box.union(segmentBox))
+  }
+
+  /**
+   * Finds the point on the path closest to a given point.
+   * @param point The point.
+   * @returns The closest point, with `t` as a fraction of the path's length, or null if the path has no segments.
+   */
+  public nearestPoint(point: Point): NearestPoint | null {
+    const segments = this.segments()
+    if (segments.length === 0) return null
+
+    const lengths = segments.map((segment) => segment.length())
+    const total = lengths.reduce((sum, length) => sum + length, 0)
+    let best: NearestPoint | null = null
+    let offset = 0
+
+    segments.forEach((segment, i) => {
+      const nearest =
+        segment instanceof Line
+          ? findNearest((u) => segment.pointAt(u), point, 1)
+          : segment.nearestPoint(point)
+
+      if (!best || nearest.distance < best.distance) {
+        const along =
+          segment instanceof Line
+            ? nearest.t * lengths[i]
+            : segment.length(nearest.t)
+        best = { ...nearest, t: total === 0 ? 0 : (offset + along) / total }
+      }
+      offset += lengths[i]
+    })
+
+    return best
+  }
+
+  /**
+   * Calculates the shortest distance from a point to this path.
+   * @param point The point.
+   * @returns The distance, or Infinity if the path has no segments.
+   */
+  public distanceToPoint(point: Point): number {
+    return this.nearestPoint(point)?.distance ?? Infinity
+  }
+
+  /**
+   * Approximates each subpath with a polygon. Closed subpaths give closed polygons.
+   * @param tolerance The maximum distance between a curve and its polygon. Defaults to 0.25.
+   * @returns New Polygons, one per subpath that has segments.
+   */
+  public toPolygons(tolerance: number = DEFAULT_TOLERANCE): Polygon[] {
+    return this.subpaths()
+      .filter((subpath) => subpath.segments.length > 0)
+      .map((subpath) => {
+        const points: Point[] = [subpath.segments[0].start.clone()]
+        for (const segment of subpath.segments) {
+          const flattened =
+            segment instanceof Line
+              ? [segment.end.clone()]
+              : segment.toPolygon(tolerance).vertices.slice(1)
+          points.push(...flattened)
+        }
+        const polygon = new Polygon(points)
+        return subpath.closed ? polygon.close() : polygon
+      })
+  }
+
+  /**
+   * Converts this path to SVG path data, for the `d` attribute of a `<path>` element.
+   * Each arc is written as SVG arcs of at most 180 degrees, preceded by the line or move
+   * that a canvas arc implies.
+   * @param precision The maximum number of decimals of each number. Defaults to 3.
+   * @returns The path data, e.g. "M0 0 L10 0 Z".
+   */
+  public toSVG(precision: number = 3): string {
+    const format = (...points: Point[]) =>
+      points
+        .map(
+          (point) =>
+            `${formatSVGNumber(point.x, precision)} ${formatSVGNumber(point.y, precision)}`,
+        )
+        .join(' ')
+
+    const parts: string[] = []
+    let start: Point | null = null
+    let current: Point | null = null
+
+    for (const command of this.commands) {
+      switch (command.type) {
+        case PathCommandType.MoveTo:
+          parts.push(`M${format(command.to)}`)
+          start = command.to
+          break
+        case PathCommandType.LineTo:
+          parts.push(`${current ? 'L' : 'M'}${format(command.to)}`)
+          break
+        case PathCommandType.QuadraticCurveTo:
+          if (!current) parts.push(`M${format(command.control)}`)
+          parts.push(`Q${format(command.control, command.to)}`)
+          break
+        case PathCommandType.BezierCurveTo:
+          if (!current) parts.push(`M${format(command.control1)}`)
+          parts.push(
+            `C${format(command.control1, command.control2, command.to)}`,
+          )
+          break
+        case PathCommandType.Arc: {
+          const { center, radius, startAngle } = command
+          const sweep = getArcSweep(
+            startAngle,
+            command.endAngle,
+            command.counterclockwise,
+          )
+          const arcStart = Point.add(
+            center,
+            Vector.fromAngle(startAngle, radius),
+          )
+          if (!current || !current.equals(arcStart)) {
+            parts.push(`${current ? 'L' : 'M'}${format(arcStart)}`)
+          }
+          start ??= arcStart
+          current = arcStart
+
+          // A single SVG arc can't be a full turn, so split the sweep into halves at most
+          const count = Math.ceil(Math.abs(sweep) / Math.PI - 1e-9)
+          const r = formatSVGNumber(radius, precision)
+          for (let i = 1; i <= count; i++) {
+            const angle = startAngle + (sweep * i) / count
+            current = Point.add(center, Vector.fromAngle(angle, radius))
+            parts.push(`A${r} ${r} 0 0 ${sweep > 0 ? 1 : 0} ${format(current)}`)
+          }
+          continue
+        }
+        case PathCommandType.ClosePath:
+          if (start) parts.push('Z')
+          current = start
+          start = null
+          continue
+      }
+      start ??= command.to
+      current = command.to
+    }
+
+    return parts.join(' ')
+  }
+
+  /**
+   * Creates a new Path instance with the same commands as this path.
+   * @returns A new Path instance (a clone).
+   */
+  public clone(): Path {
+    return new Path(this.commands)
+  }
+
+  /**
+   * Checks if this path is equal to another path within a given tolerance.
+   * Paths are equal if they have the same commands with equal points and values.
+   * @param path The path to compare with.
+   * @param tolerance The maximum difference allowed for coordinates and values to be considered equal. Defaults to 1e-10.
+   * @returns True if the paths are equal within tolerance, false otherwise.
+   */
+  public equals(path: Path, tolerance: number = 1e-10): boolean {
+    if (this.commands.length !== path.commands.length) return false
+
+    return this.commands.every((command, i) => {
+      const other = path.commands[i]
+      if (command.type !== other.type) return false
+
+      return Object.entries(command).every(([key, value]) => {
+        const otherValue = (other as Record<string, unknown>)[key]
+        if (value instanceof Point) {
+          return (
+            otherValue instanceof Point && value.equals(otherValue, tolerance)
+          )
+        }
+        if (typeof value === 'number') {
+          return (
+            typeof otherValue === 'number' &&
+            Math.abs(value - otherValue) < tolerance
+          )
+        }
+        return value === otherValue
+      })
+    })
+  }
+
+  /**
+   * Returns a string representation of this path.
+   * @returns A string in the format "Path([M(x, y), L(x, y), ...])".
+   */
+  public toString(): string {
+    const commandStrings = this.commands.map((command) => {
+      switch (command.type) {
+        case PathCommandType.MoveTo:
+        case PathCommandType.LineTo:
+          return `${command.type}(${command.to.x}, ${command.to.y})`
+        case PathCommandType.QuadraticCurveTo:
+          return `Q(${command.control.x}, ${command.control.y}, ${command.to.x}, ${command.to.y})`
+        case PathCommandType.BezierCurveTo:
+          return `C(${command.control1.x}, ${command.control1.y}, ${command.control2.x}, ${command.control2.y}, ${command.to.x}, ${command.to.y})`
+        case PathCommandType.Arc:
+          return `A(${command.center.x}, ${command.center.y}, ${command.radius}, ${command.startAngle}, ${command.endAngle}, ${command.counterclockwise})`
+        case PathCommandType.ClosePath:
+          return 'Z'
+      }
+    })
+    return `Path([${commandStrings.join(', ')}])`
+  }
+
+  // Static methods
+
+  /**
+   * Converts an arc command to cubic Bezier curves.
+   * @param command The arc command.
+   * @returns New curves tracing the arc in drawing direction.
+   */
+  public static arcToCubics(
+    command: Extract<PathCommand, { type: typeof PathCommandType.Arc }>,
+  ): CubicBezier[] {
+    const sweep = getArcSweep(
+      command.startAngle,
+      command.endAngle,
+      command.counterclockwise,
+    )
+    return CubicBezier.fromArc(
+      command.center,
+      command.radius,
+      command.startAngle,
+      command.startAngle + sweep,
+    )
+  }
+
+  /**
+   * Creates a path tracing the vertices of a polygon.
+   * @param polygon The polygon. A closed polygon gives a closed path.
+   * @returns A new Path instance.
+   */
+  public static fromPolygon(polygon: Polygon): Path {
+    const path = new Path()
+    const vertices = polygon.isClosed()
+      ? polygon.vertices.slice(0, -1)
+      : polygon.vertices
+
+    vertices.forEach((vertex, i) =>
+      i === 0 ? path.moveTo(vertex) : path.lineTo(vertex),
+    )
+    if (polygon.isClosed()) path.closePath()
+    return path
+  }
+
+  /**
+   * Creates a path from SVG path data, as found in the `d` attribute of a `<path>` element.
+   * All commands are supported in absolute and relative form. Elliptical arcs become cubic
+   * curves, and horizontal, vertical and smooth curve commands become their general form.
+   * @param d The path data, e.g. "M0 0 h10 v10 z".
+   * @returns A new Path instance with absolute coordinates.
+   * @throws If the data isn't valid path data.
+   */
+  public static fromSVG(d: string): Path {
+    const path = new Path()
+    let start = Point.zero
+    let current = Point.zero
+    let closed = false
+    // The last control point and curve type, which smooth curve commands reflect
+    let previousControl: Point | null = null
+    let previousType = ''
+
+    for (const { letter, values } of parseSVGCommands(d)) {
+      const type = letter.toUpperCase()
+      const relative = letter !== type
+      const point = (i: number) =>
+        relative
+          ? new Point(current.x + values[i], current.y + values[i + 1])
+          : new Point(values[i], values[i + 1])
+      const reflect = (curveType: string) =>
+        previousControl && previousType === curveType
+          ? Point.subtract(Point.multiply(current, 2), previousControl)
+          : current.clone()
+
+      // After a close, drawing continues from the start of the closed subpath
+      if (closed && type !== 'M' && type !== 'Z') path.moveTo(start)
+      closed = false
+      let control: Point | null = null
+
+      switch (type) {
+        case 'M':
+          current = point(0)
+          start = current
+          path.moveTo(current)
+          break
+        case 'L':
+          current = point(0)
+          path.lineTo(current)
+          break
+        case 'H':
+          current = new Point(
+            relative ? current.x + values[0] : values[0],
+            current.y,
+          )
+          path.lineTo(current)
+          break
+        case 'V':
+          current = new Point(
+            current.x,
+            relative ? current.y + values[0] : values[0],
+          )
+          path.lineTo(current)
+          break
+        case 'C':
+        case 'S': {
+          const control1 = type === 'C' ? point(0) : reflect('C')
+          control = type === 'C' ? point(2) : point(0)
+          current = type === 'C' ? point(4) : point(2)
+          path.bezierCurveTo(control1, control, current)
+          break
+        }
+        case 'Q':
+        case 'T':
+          control = type === 'Q' ? point(0) : reflect('Q')
+          current = type === 'Q' ? point(2) : point(0)
+          path.quadraticCurveTo(control, current)
+          break
+        case 'A': {
+          const to = point(5)
+          const curves = svgArcToCubics(
+            current,
+            values[0],
+            values[1],
+            (values[2] * Math.PI) / 180,
+            values[3] === 1,
+            values[4] === 1,
+            to,
+          )
+          if (curves === null) path.lineTo(to)
+          curves?.forEach((curve) =>
+            path.bezierCurveTo(curve.control1, curve.control2, curve.end),
+          )
+          current = to
+          break
+        }
+        case 'Z':
+          path.closePath()
+          current = start
+          closed = true
+          break
+      }
+
+      previousControl = control
+      previousType = type === 'S' ? 'C' : type === 'T' ? 'Q' : type
+    }
+
+    return path
+  }
+}
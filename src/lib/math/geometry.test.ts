@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { Ellipse, JoinType, Line, Point, Polygon, Rectangle } from './geometry'
+
+function polygon(...coordinates: [number, number][]): Polygon {
+  return new Polygon(coordinates.map(([x, y]) => new Point(x, y))).close()
+}
+
+describe('Polygon.offset', () => {
+  const strip = polygon([0, 0], [100, 0], [100, 10], [0, 10])
+
+  it('insets and outsets a polygon', () => {
+    const inset = strip.offset(-2)
+    const outset = strip.offset(2)
+    const rounded = strip.offset(2, JoinType.Round)
+
+    expect(inset).toHaveLength(1)
+    expect(inset[0].area()).toBeCloseTo(96 * 6)
+    expect(outset).toHaveLength(1)
+    expect(outset[0].area()).toBeCloseTo(104 * 14)
+    expect(rounded).toHaveLength(1)
+    // The arcs of the corners are approximated by inscribed chords
+    expect(rounded[0].area()).toBeGreaterThan(1000 + 2 * 2 * 110)
+    expect(rounded[0].area()).toBeLessThan(1000 + 2 * 2 * 110 + Math.PI * 4)
+  })
+
+  it('keeps the winding of the polygon', () => {
+    const reversed = strip.clone().reverse()
+
+    expect(strip.offset(-2)[0].signedArea()).toBeGreaterThan(0)
+    expect(reversed.offset(-2)[0].signedArea()).toBeLessThan(0)
+  })
+
+  it('collapses an inset past half the width', () => {
+    expect(strip.offset(-6)).toEqual([])
+    expect(strip.clone().reverse().offset(-6)).toEqual([])
+  })
+
+  it('splits a polygon whose narrow part collapses', () => {
+    // Two 40 x 40 squares joined by a 20 x 4 bar
+    const dumbbell = polygon(
+      [0, 0],
+      [40, 0],
+      [40, 18],
+      [60, 18],
+      [60, 0],
+      [100, 0],
+      [100, 40],
+      [60, 40],
+      [60, 22],
+      [40, 22],
+      [40, 40],
+      [0, 40],
+    )
+    const parts = dumbbell.offset(-5)
+
+    expect(parts).toHaveLength(2)
+    parts.forEach((part) => {
+      expect(part.signedArea()).toBeCloseTo(30 * 30)
+    })
+  })
+})
+
+describe('Ellipse.intersectLine', () => {
+  it('finds where a line crosses the boundary', () => {
+    const ellipse = new Ellipse(new Point(50, 0), 50, 20)
+    const crossings = ellipse.intersectLine(
+      new Line(new Point(50, -30), new Point(50, 30)),
+    )
+
+    expect(crossings).toHaveLength(2)
+    expect(crossings[0].y).toBeCloseTo(-20)
+    expect(crossings[1].y).toBeCloseTo(20)
+  })
+
+  it('treats an ellipse without height as a horizontal segment', () => {
+    // As drawn by a drag along the x-axis only
+    const flat = Ellipse.fromRectangle(new Rectangle(0, 0, 100, 0))
+    const crossing = new Line(new Point(50, -10), new Point(50, 10))
+
+    expect(flat.distanceToPoint(new Point(50, 0))).toBeCloseTo(0)
+    expect(flat.intersectLine(crossing)).toHaveLength(1)
+    expect(flat.intersectLine(crossing)[0].equals(new Point(50, 0))).toBe(true)
+    expect(flat.intersects(crossing)).toBe(true)
+    expect(
+      flat.intersects(new Line(new Point(150, -10), new Point(150, 10))),
+    ).toBe(false)
+  })
+
+  it('treats an ellipse without width as a vertical segment', () => {
+    const flat = Ellipse.fromRectangle(new Rectangle(0, 0, 0, 100))
+    const crossing = new Line(new Point(-10, 50), new Point(10, 50))
+
+    expect(flat.intersectLine(crossing)).toHaveLength(1)
+    expect(flat.intersects(crossing)).toBe(true)
+    expect(flat.intersects(new Rectangle(-5, 40, 10, 20))).toBe(true)
+  })
+})
@@ -5,6 +5,40 @@
  * Features chainable methods and static versions for flexible usage.
  */
 
+/**
+ * The `type` tags of the plain JSON produced by the `toJSON` methods.
+ */
+export const GeometryType = {
+  Point: 'point',
+  Vector: 'vector',
+  Rectangle: 'rectangle',
+  Circle: 'circle',
+  Ellipse: 'ellipse',
+  Arc: 'arc',
+  Line: 'line',
+  Polygon: 'polygon',
+} as const
+
+export type GeometryType = Enum<typeof GeometryType>
+
+/**
+ * Checks the `type` tag of JSON passed to a `fromJSON` method, which may come from an untyped source.
+ */
+function assertGeometryType(data: { type: string }, type: GeometryType): void {
+  if (data?.type !== type) {
+    throw new Error(`Expected ${type} data, got ${String(data?.type)}`)
+  }
+}
+
+/**
+ * A Point as plain JSON.
+ */
+export interface PointJSON {
+  type: typeof GeometryType.Point
+  x: number
+  y: number
+}
+
 /**
  * Represents a 2D point with x and y coordinates.
  */
@@ -112,6 +146,20 @@ export class Point {
     return this
   }
 
+  /**
+   * Transforms this point by an affine matrix.
+   * Modifies this point and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This point after transformation.
+   */
+  public transform(matrix: Matrix): Point {
+    const x = matrix.a * this.x + matrix.c * this.y + matrix.e
+    const y = matrix.b * this.x + matrix.d * this.y + matrix.f
+    this.x = x
+    this.y = y
+    return this
+  }
+
   // Utility methods
 
   /**
@@ -152,6 +200,15 @@ export class Point {
     )
   }
 
+  /**
+   * Converts this point to plain JSON, e.g. for storage or `JSON.stringify`.
+   * Vector overrides this to tag its data as a vector.
+   * @returns The JSON representation.
+   */
+  public toJSON(): PointJSON | VectorJSON {
+    return { type: GeometryType.Point, x: this.x, y: this.y }
+  }
+
   /**
    * Returns a string representation of this point.
    * @returns A string in the format "Point(x, y)".
@@ -251,6 +308,28 @@ export class Point {
       point.x * sin + point.y * cos,
     )
   }
+
+  /**
+   * Recreates a Point from plain JSON. Vector data is accepted too, since a vector is a point.
+   * @param data The output of `toJSON`.
+   * @returns A new Point.
+   * @throws If the data isn't tagged as a point or a vector.
+   */
+  public static fromJSON(data: PointJSON | VectorJSON): Point {
+    if (data?.type !== GeometryType.Vector) {
+      assertGeometryType(data, GeometryType.Point)
+    }
+    return new Point(data.x, data.y)
+  }
+}
+
+/**
+ * A Vector as plain JSON.
+ */
+export interface VectorJSON {
+  type: typeof GeometryType.Vector
+  x: number
+  y: number
 }
 
 /**
@@ -369,6 +448,21 @@ export class Vector extends Point {
     return super.normalize() as Vector // Cast is safe as super.normalize returns `this` (which is a Vector)
   }
 
+  /**
+   * Transforms this vector by the linear part of an affine matrix, ignoring translation,
+   * since a vector describes a direction and magnitude rather than a position.
+   * Modifies this vector and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This vector after transformation.
+   */
+  public override transform(matrix: Matrix): Vector {
+    const x = matrix.a * this.x + matrix.c * this.y
+    const y = matrix.b * this.x + matrix.d * this.y
+    this.x = x
+    this.y = y
+    return this
+  }
+
   /**
    * Creates a new Vector instance with the same components as this vector.
    * @returns A new Vector instance (a clone).
@@ -377,6 +471,14 @@ export class Vector extends Point {
     return new Vector(this.x, this.y)
   }
 
+  /**
+   * Converts this vector to plain JSON, e.g. for storage or `JSON.stringify`.
+   * @returns The JSON representation.
+   */
+  public override toJSON(): VectorJSON {
+    return { type: GeometryType.Vector, x: this.x, y: this.y }
+  }
+
   /**
    * Returns a string representation of this vector.
    * @returns A string in the format "Vector(x, y)".
@@ -457,6 +559,456 @@ export class Vector extends Point {
       vector.y - 2 * dot * normal.y,
     )
   }
+
+  /**
+   * Recreates a Vector from plain JSON.
+   * @param data The output of `toJSON`.
+   * @returns A new Vector.
+   * @throws If the data isn't tagged as a vector.
+   */
+  public static override fromJSON(data: VectorJSON): Vector {
+    assertGeometryType(data, GeometryType.Vector)
+    return new Vector(data.x, data.y)
+  }
+}
+
+/**
+ * The components of an affine transform, as returned by `Matrix.decompose`.
+ * Applied in the order scale, skew, rotation, translation.
+ */
+export interface MatrixComponents {
+  translateX: number
+  translateY: number
+  /** Rotation in radians. */
+  rotation: number
+  scaleX: number
+  scaleY: number
+  /** Skew angle along the x-axis, in radians. */
+  skewX: number
+}
+
+/**
+ * Represents a 2D affine transformation matrix, using the same layout as the Canvas API:
+ * ```
+ * | a c e |
+ * | b d f |
+ * | 0 0 1 |
+ * ```
+ * A point (x, y) is transformed to (a * x + c * y + e, b * x + d * y + f).
+ */
+export class Matrix {
+  public a: number
+  public b: number
+  public c: number
+  public d: number
+  public e: number
+  public f: number
+
+  /**
+   * Creates a new Matrix instance. Defaults to the identity matrix.
+   * @param a The horizontal scaling component.
+   * @param b The vertical skewing component.
+   * @param c The horizontal skewing component.
+   * @param d The vertical scaling component.
+   * @param e The horizontal translation component.
+   * @param f The vertical translation component.
+   */
+  constructor(
+    a: number = 1,
+    b: number = 0,
+    c: number = 0,
+    d: number = 1,
+    e: number = 0,
+    f: number = 0,
+  ) {
+    this.a = a
+    this.b = b
+    this.c = c
+    this.d = d
+    this.e = e
+    this.f = f
+  }
+
+  /**
+   * Gets a new identity Matrix.
+   * @returns A new Matrix that leaves points unchanged.
+   */
+  static get identity(): Matrix {
+    return new Matrix()
+  }
+
+  // Chainable methods
+
+  /**
+   * Multiplies this matrix by another matrix on the right (this × matrix).
+   * The resulting transform applies `matrix` first, then this matrix,
+   * like calling `ctx.transform` after the current transform.
+   * Modifies this matrix and returns it for chaining.
+   * @param matrix The matrix to multiply by.
+   * @returns This matrix after multiplication.
+   */
+  public multiply(matrix: Matrix): Matrix {
+    const { a, b, c, d, e, f } = this
+    this.a = a * matrix.a + c * matrix.b
+    this.b = b * matrix.a + d * matrix.b
+    this.c = a * matrix.c + c * matrix.d
+    this.d = b * matrix.c + d * matrix.d
+    this.e = a * matrix.e + c * matrix.f + e
+    this.f = b * matrix.e + d * matrix.f + f
+    return this
+  }
+
+  /**
+   * Multiplies this matrix by another matrix on the left (matrix × this).
+   * The resulting transform applies this matrix first, then `matrix`.
+   * Modifies this matrix and returns it for chaining.
+   * @param matrix The matrix to multiply by.
+   * @returns This matrix after multiplication.
+   */
+  public premultiply(matrix: Matrix): Matrix {
+    const result = Matrix.multiply(matrix, this)
+    return this.set(result)
+  }
+
+  /**
+   * Applies a translation before the current transform, like `ctx.translate`.
+   * Modifies this matrix and returns it for chaining.
+   * @param dx The translation along the x-axis.
+   * @param dy The translation along the y-axis.
+   * @returns This matrix after translation.
+   */
+  public translate(dx: number, dy: number): Matrix {
+    return this.multiply(Matrix.translation(dx, dy))
+  }
+
+  /**
+   * Applies a rotation before the current transform, like `ctx.rotate`.
+   * Modifies this matrix and returns it for chaining.
+   * @param angle The angle in radians.
+   * @param origin The point about which to rotate. Defaults to Point.zero.
+   * @returns This matrix after rotation.
+   */
+  public rotate(angle: number, origin: Point = Point.zero): Matrix {
+    return this.multiply(Matrix.rotation(angle, origin))
+  }
+
+  /**
+   * Applies a scale before the current transform, like `ctx.scale`.
+   * Modifies this matrix and returns it for chaining.
+   * @param scaleX The scale factor along the x-axis.
+   * @param scaleY The scale factor along the y-axis. If undefined, `scaleX` is used.
+   * @param origin The point about which to scale. Defaults to Point.zero.
+   * @returns This matrix after scaling.
+   */
+  public scale(
+    scaleX: number,
+    scaleY: number = scaleX,
+    origin: Point = Point.zero,
+  ): Matrix {
+    return this.multiply(Matrix.scaling(scaleX, scaleY, origin))
+  }
+
+  /**
+   * Applies a skew before the current transform.
+   * Modifies this matrix and returns it for chaining.
+   * @param skewX The skew angle along the x-axis, in radians.
+   * @param skewY The skew angle along the y-axis, in radians. Defaults to 0.
+   * @returns This matrix after skewing.
+   */
+  public skew(skewX: number, skewY: number = 0): Matrix {
+    return this.multiply(Matrix.skewing(skewX, skewY))
+  }
+
+  /**
+   * Inverts this matrix.
+   * Modifies this matrix and returns it for chaining.
+   * @returns This matrix after inversion.
+   * @throws Error if the matrix is not invertible.
+   */
+  public invert(): Matrix {
+    const det = this.determinant()
+    if (Math.abs(det) < 1e-12) throw new Error('Matrix is not invertible')
+
+    const { a, b, c, d, e, f } = this
+    this.a = d / det
+    this.b = -b / det
+    this.c = -c / det
+    this.d = a / det
+    this.e = (c * f - d * e) / det
+    this.f = (b * e - a * f) / det
+    return this
+  }
+
+  /**
+   * Copies the components of another matrix into this matrix.
+   * Modifies this matrix and returns it for chaining.
+   * @param matrix The matrix to copy.
+   * @returns This matrix after copying.
+   */
+  public set(matrix: Matrix): Matrix {
+    this.a = matrix.a
+    this.b = matrix.b
+    this.c = matrix.c
+    this.d = matrix.d
+    this.e = matrix.e
+    this.f = matrix.f
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Calculates the determinant of the linear part of this matrix.
+   * Its absolute value is the factor by which the transform scales areas.
+   * @returns The determinant.
+   */
+  public determinant(): number {
+    return this.a * this.d - this.b * this.c
+  }
+
+  /**
+   * Checks if this matrix is the identity matrix within a given tolerance.
+   * @param tolerance The maximum difference allowed for components. Defaults to 1e-10.
+   * @returns True if the matrix leaves points unchanged, false otherwise.
+   */
+  public isIdentity(tolerance: number = 1e-10): boolean {
+    return this.equals(Matrix.identity, tolerance)
+  }
+
+  /**
+   * Transforms a point by this matrix.
+   * @param point The point to transform.
+   * @returns A new Point.
+   */
+  public applyToPoint(point: Point): Point {
+    return new Point(
+      this.a * point.x + this.c * point.y + this.e,
+      this.b * point.x + this.d * point.y + this.f,
+    )
+  }
+
+  /**
+   * Transforms a vector by the linear part of this matrix, ignoring translation.
+   * @param vector The vector to transform.
+   * @returns A new Vector.
+   */
+  public applyToVector(vector: Vector): Vector {
+    return new Vector(
+      this.a * vector.x + this.c * vector.y,
+      this.b * vector.x + this.d * vector.y,
+    )
+  }
+
+  /**
+   * Splits this matrix into translation, rotation, scale and skew.
+   * Composing the result with `Matrix.compose` gives back this matrix.
+   * A reflection is expressed as a negative `scaleY`.
+   * @returns The components of the transform.
+   */
+  public decompose(): MatrixComponents {
+    const { a, b, c, d, e, f } = this
+    const scaleX = Math.sqrt(a * a + b * b)
+    const det = this.determinant()
+
+    if (scaleX === 0) {
+      return {
+        translateX: e,
+        translateY: f,
+        rotation: 0,
+        scaleX: 0,
+        scaleY: Math.sqrt(c * c + d * d),
+        skewX: 0,
+      }
+    }
+
+    const scaleY = det / scaleX
+    return {
+      translateX: e,
+      translateY: f,
+      rotation: Math.atan2(b, a),
+      scaleX,
+      scaleY,
+      skewX: det === 0 ? 0 : Math.atan((a * c + b * d) / det),
+    }
+  }
+
+  /**
+   * Gets the components as arguments for `ctx.setTransform` or `ctx.transform`.
+   * @returns An array [a, b, c, d, e, f].
+   */
+  public toArray(): [number, number, number, number, number, number] {
+    return [this.a, this.b, this.c, this.d, this.e, this.f]
+  }
+
+  /**
+   * Creates a new Matrix instance with the same components as this matrix.
+   * @returns A new Matrix instance (a clone).
+   */
+  public clone(): Matrix {
+    return new Matrix(this.a, this.b, this.c, this.d, this.e, this.f)
+  }
+
+  /**
+   * Checks if this matrix is equal to another matrix within a given tolerance.
+   * @param matrix The matrix to compare with.
+   * @param tolerance The maximum difference allowed for components to be considered equal. Defaults to 1e-10.
+   * @returns True if the matrices are equal within tolerance, false otherwise.
+   */
+  public equals(matrix: Matrix, tolerance: number = 1e-10): boolean {
+    return (
+      Math.abs(this.a - matrix.a) < tolerance &&
+      Math.abs(this.b - matrix.b) < tolerance &&
+      Math.abs(this.c - matrix.c) < tolerance &&
+      Math.abs(this.d - matrix.d) < tolerance &&
+      Math.abs(this.e - matrix.e) < tolerance &&
+      Math.abs(this.f - matrix.f) < tolerance
+    )
+  }
+
+  /**
+   * Returns a string representation of this matrix.
+   * @returns A string in the format "Matrix(a, b, c, d, e, f)".
+   */
+  public toString(): string {
+    return `Matrix(${this.a}, ${this.b}, ${this.c}, ${this.d}, ${this.e}, ${this.f})`
+  }
+
+  // Static methods
+
+  /**
+   * Multiplies two matrices (m1 × m2). The result applies `m2` first, then `m1`.
+   * @param m1 The left matrix.
+   * @param m2 The right matrix.
+   * @returns A new Matrix representing the product.
+   */
+  public static multiply(m1: Matrix, m2: Matrix): Matrix {
+    return m1.clone().multiply(m2)
+  }
+
+  /**
+   * Creates a translation matrix.
+   * @param dx The translation along the x-axis.
+   * @param dy The translation along the y-axis.
+   * @returns A new Matrix.
+   */
+  public static translation(dx: number, dy: number): Matrix {
+    return new Matrix(1, 0, 0, 1, dx, dy)
+  }
+
+  /**
+   * Creates a rotation matrix.
+   * @param angle The angle in radians.
+   * @param origin The point about which to rotate. Defaults to Point.zero.
+   * @returns A new Matrix.
+   */
+  public static rotation(angle: number, origin: Point = Point.zero): Matrix {
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    return new Matrix(
+      cos,
+      sin,
+      -sin,
+      cos,
+      origin.x - origin.x * cos + origin.y * sin,
+      origin.y - origin.x * sin - origin.y * cos,
+    )
+  }
+
+  /**
+   * Creates a scaling matrix.
+   * @param scaleX The scale factor along the x-axis.
+   * @param scaleY The scale factor along the y-axis. If undefined, `scaleX` is used.
+   * @param origin The point about which to scale. Defaults to Point.zero.
+   * @returns A new Matrix.
+   */
+  public static scaling(
+    scaleX: number,
+    scaleY: number = scaleX,
+    origin: Point = Point.zero,
+  ): Matrix {
+    return new Matrix(
+      scaleX,
+      0,
+      0,
+      scaleY,
+      origin.x - origin.x * scaleX,
+      origin.y - origin.y * scaleY,
+    )
+  }
+
+  /**
+   * Creates a skewing matrix.
+   * @param skewX The skew angle along the x-axis, in radians.
+   * @param skewY The skew angle along the y-axis, in radians. Defaults to 0.
+   * @returns A new Matrix.
+   */
+  public static skewing(skewX: number, skewY: number = 0): Matrix {
+    return new Matrix(1, Math.tan(skewY), Math.tan(skewX), 1, 0, 0)
+  }
+
+  /**
+   * Creates a matrix from its components, the inverse of `decompose`.
+   * @param components The components. Missing ones default to no transform.
+   * @returns A new Matrix.
+   */
+  public static compose(components: Partial<MatrixComponents>): Matrix {
+    const {
+      translateX = 0,
+      translateY = 0,
+      rotation = 0,
+      scaleX = 1,
+      scaleY = 1,
+      skewX = 0,
+    } = components
+
+    return Matrix.translation(translateX, translateY)
+      .rotate(rotation)
+      .skew(skewX)
+      .scale(scaleX, scaleY)
+  }
+
+  /**
+   * Creates a matrix from `ctx.setTransform` arguments or the output of `toArray`.
+   * @param values An array [a, b, c, d, e, f].
+   * @returns A new Matrix.
+   */
+  public static fromArray(values: ArrayLike<number>): Matrix {
+    return new Matrix(
+      values[0],
+      values[1],
+      values[2],
+      values[3],
+      values[4],
+      values[5],
+    )
+  }
+
+  /**
+   * Creates a matrix from a DOMMatrix, e.g. the result of `ctx.getTransform()`.
+   * @param matrix The DOMMatrix (only its 2D components are used).
+   * @returns A new Matrix.
+   */
+  public static fromDOMMatrix(matrix: DOMMatrixReadOnly): Matrix {
+    return new Matrix(
+      matrix.a,
+      matrix.b,
+      matrix.c,
+      matrix.d,
+      matrix.e,
+      matrix.f,
+    )
+  }
+}
+
+/**
+ * A Rectangle as plain JSON.
+ */
+export interface RectangleJSON {
+  type: typeof GeometryType.Rectangle
+  x: number
+  y: number
+  width: number
+  height: number
 }
 
 /**
@@ -553,6 +1105,31 @@ export class Rectangle {
     return this
   }
 
+  /**
+   * Transforms this rectangle by an affine matrix.
+   * The result is the axis-aligned bounding box of the transformed corners, which is exact
+   * for translation and scaling; use OrientedRectangle to preserve rotation.
+   * Modifies this rectangle and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This rectangle after transformation.
+   */
+  public transform(matrix: Matrix): Rectangle {
+    const box = new Polygon([
+      this.topLeft(),
+      this.topRight(),
+      this.bottomRight(),
+      this.bottomLeft(),
+    ])
+      .transform(matrix)
+      .boundingBox()
+
+    this.x = box.x
+    this.y = box.y
+    this.width = box.width
+    this.height = box.height
+    return this
+  }
+
   // Utility methods
 
   /**
@@ -772,6 +1349,15 @@ export class Rectangle {
     )
   }
 
+  /**
+   * Converts this rectangle to plain JSON, e.g. for storage or `JSON.stringify`.
+   * @returns The JSON representation.
+   */
+  public toJSON(): RectangleJSON {
+    const { x, y, width, height } = this
+    return { type: GeometryType.Rectangle, x, y, width, height }
+  }
+
   /**
    * Returns a string representation of this rectangle.
    * @returns A string in the format "Rectangle(x, y, width, height)".
@@ -854,46 +1440,414 @@ export class Rectangle {
 
     return new Rectangle(x, y, right - x, bottom - y)
   }
+
+  /**
+   * Recreates a Rectangle from plain JSON.
+   * @param data The output of `toJSON`.
+   * @returns A new Rectangle.
+   * @throws If the data isn't tagged as a rectangle.
+   */
+  public static fromJSON(data: RectangleJSON): Rectangle {
+    assertGeometryType(data, GeometryType.Rectangle)
+    return new Rectangle(data.x, data.y, data.width, data.height)
+  }
 }
 
 /**
- * Represents a circle defined by its center point and radius.
+ * Projects points onto an axis.
+ * @returns The range covered by the projections.
  */
-export class Circle {
-  /** The center point of the circle. */
+function projectOntoAxis(
+  points: Point[],
+  axis: Vector,
+): { min: number; max: number } {
+  let min = Infinity
+  let max = -Infinity
+  for (const point of points) {
+    const projection = point.x * axis.x + point.y * axis.y
+    min = Math.min(min, projection)
+    max = Math.max(max, projection)
+  }
+  return { min, max }
+}
+
+/**
+ * Separating Axis Theorem test for two convex point sets.
+ * @returns True if no axis separates the projections of the two sets.
+ */
+function overlapsOnAxes(a: Point[], b: Point[], axes: Vector[]): boolean {
+  return axes.every((axis) => {
+    const pa = projectOntoAxis(a, axis)
+    const pb = projectOntoAxis(b, axis)
+    return pa.max >= pb.min && pb.max >= pa.min
+  })
+}
+
+/**
+ * Represents a rectangle rotated around its center, also known as an oriented bounding box.
+ */
+export class OrientedRectangle {
+  /** The center point of the rectangle. */
   public center: Point
-  /** The radius of the circle. Should be non-negative. */
-  public radius: number
+  /** The width of the rectangle, measured along its own x-axis. */
+  public width: number
+  /** The height of the rectangle, measured along its own y-axis. */
+  public height: number
+  /** The rotation of the rectangle around its center, in radians. */
+  public rotation: number
 
   /**
-   * Creates a new Circle instance.
-   * @param center The center point of the circle. Defaults to Point.zero.
-   * @param radius The radius of the circle. Defaults to 0.
+   * Creates a new OrientedRectangle instance.
+   * @param center The center point. Defaults to Point.zero.
+   * @param width The width. Defaults to 0.
+   * @param height The height. Defaults to 0.
+   * @param rotation The rotation in radians. Defaults to 0.
    */
-  constructor(center: Point = Point.zero, radius: number = 0) {
+  constructor(
+    center: Point = Point.zero,
+    width: number = 0,
+    height: number = 0,
+    rotation: number = 0,
+  ) {
     this.center = center
-    this.radius = radius
+    this.width = width
+    this.height = height
+    this.rotation = rotation
   }
 
   // Chainable methods
 
   /**
-   * Translates (moves) the circle by given deltas.
-   * Modifies this circle's center and returns it for chaining.
+   * Translates (moves) the rectangle by given deltas.
+   * Modifies this rectangle and returns it for chaining.
    * @param dx The amount to move in the x-direction.
    * @param dy The amount to move in the y-direction.
-   * @returns This circle after translation.
+   * @returns This rectangle after translation.
    */
-  public translate(dx: number, dy: number): Circle {
+  public translate(dx: number, dy: number): OrientedRectangle {
     this.center.add(new Point(dx, dy))
     return this
   }
 
   /**
-   * Scales the circle's radius by a given factor.
-   * The center remains unchanged.
-   * Modifies this circle's radius and returns it for chaining.
-   * @param factor The factor to scale the radius by.
+   * Scales the rectangle's width and height along its own axes, keeping the center fixed.
+   * Modifies this rectangle and returns it for chaining.
+   * @param scaleX The factor to scale the width by.
+   * @param scaleY The factor to scale the height by. If undefined, `scaleX` is used.
+   * @returns This rectangle after scaling.
+   */
+  public scale(scaleX: number, scaleY: number = scaleX): OrientedRectangle {
+    this.width *= scaleX
+    this.height *= scaleY
+    return this
+  }
+
+  /**
+   * Rotates the rectangle around an origin point by a given angle.
+   * Modifies this rectangle and returns it for chaining.
+   * @param angle The angle in radians.
+   * @param origin The point about which to rotate. Defaults to the rectangle's center.
+   * @returns This rectangle after rotation.
+   */
+  public rotate(angle: number, origin?: Point): OrientedRectangle {
+    if (origin) {
+      this.center.subtract(origin).rotate(angle).add(origin)
+    }
+    this.rotation += angle
+    return this
+  }
+
+  /**
+   * Expands the rectangle by a given amount on every side.
+   * Modifies this rectangle and returns it for chaining.
+   * @param amount The amount to expand by. A negative amount will shrink the rectangle.
+   * @returns This rectangle after expansion.
+   */
+  public expand(amount: number): OrientedRectangle {
+    this.width += amount * 2
+    this.height += amount * 2
+    return this
+  }
+
+  /**
+   * Transforms this rectangle by an affine matrix.
+   * Exact for translation, rotation and scaling along the rectangle's axes; a skew relative to
+   * those axes cannot be represented, so the sides are only scaled and turned.
+   * Modifies this rectangle and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This rectangle after transformation.
+   */
+  public transform(matrix: Matrix): OrientedRectangle {
+    const [axisX, axisY] = this.axes()
+    const newAxisX = matrix.applyToVector(axisX)
+    const newAxisY = matrix.applyToVector(axisY)
+
+    this.center.transform(matrix)
+    this.width *= newAxisX.length()
+    this.height *= newAxisY.length() * Math.sign(matrix.determinant() || 1)
+    this.rotation = newAxisX.angle()
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Gets the unit vectors along the rectangle's own x- and y-axes.
+   * @returns A tuple of two new Vectors.
+   */
+  public axes(): [Vector, Vector] {
+    const axisX = Vector.fromAngle(this.rotation)
+    return [axisX, axisX.perpendicular()]
+  }
+
+  /**
+   * Gets the corners of the rectangle.
+   * Without rotation they are the top-left, top-right, bottom-right and bottom-left corners, in that order.
+   * @returns An array of four new Points.
+   */
+  public corners(): Point[] {
+    const [axisX, axisY] = this.axes()
+    const hx = Vector.multiply(axisX, this.width / 2)
+    const hy = Vector.multiply(axisY, this.height / 2)
+
+    return [
+      Point.subtract(this.center, hx).subtract(hy),
+      Point.add(this.center, hx).subtract(hy),
+      Point.add(this.center, hx).add(hy),
+      Point.subtract(this.center, hx).add(hy),
+    ]
+  }
+
+  /**
+   * Converts a point from world coordinates to the rectangle's local frame,
+   * where the center is the origin and the axes are aligned with the rectangle.
+   * @param point The point in world coordinates.
+   * @returns A new Point in local coordinates.
+   */
+  public toLocal(point: Point): Point {
+    return Point.subtract(point, this.center).rotate(-this.rotation)
+  }
+
+  /**
+   * Converts a point from the rectangle's local frame to world coordinates.
+   * @param point The point in local coordinates.
+   * @returns A new Point in world coordinates.
+   */
+  public toWorld(point: Point): Point {
+    return Point.rotate(point, this.rotation).add(this.center)
+  }
+
+  /**
+   * Calculates the area of the rectangle.
+   * @returns The area of the rectangle.
+   */
+  public area(): number {
+    return Math.abs(this.width * this.height)
+  }
+
+  /**
+   * Calculates the perimeter of the rectangle.
+   * @returns The perimeter of the rectangle.
+   */
+  public perimeter(): number {
+    return 2 * (Math.abs(this.width) + Math.abs(this.height))
+  }
+
+  /**
+   * Checks if this rectangle contains a given point.
+   * A point on the boundary is considered contained.
+   * @param point The point to check.
+   * @returns True if the point is inside or on the boundary of the rectangle, false otherwise.
+   */
+  public contains(point: Point): boolean {
+    const local = this.toLocal(point)
+    return (
+      Math.abs(local.x) <= Math.abs(this.width) / 2 &&
+      Math.abs(local.y) <= Math.abs(this.height) / 2
+    )
+  }
+
+  /**
+   * Checks if this rectangle intersects with another shape, using the Separating Axis Theorem.
+   * Concave polygons are tested edge by edge instead, since the theorem only holds for convex shapes.
+   * @param arg A Rectangle (assumed normalized), an OrientedRectangle, a Polygon or a Circle.
+   * @returns True if the shapes intersect, false otherwise.
+   */
+  public intersects(
+    arg: Rectangle | OrientedRectangle | Polygon | Circle,
+  ): boolean {
+    if (arg instanceof Circle) {
+      // Find the closest point on the rectangle to the circle's center, in local space
+      const local = this.toLocal(arg.center)
+      const hw = Math.abs(this.width) / 2
+      const hh = Math.abs(this.height) / 2
+      const closest = new Point(
+        Math.max(-hw, Math.min(local.x, hw)),
+        Math.max(-hh, Math.min(local.y, hh)),
+      )
+      return local.distanceTo(closest) <= arg.radius
+    }
+
+    const corners = this.corners()
+
+    if (arg instanceof Rectangle) {
+      const other = [
+        arg.topLeft(),
+        arg.topRight(),
+        arg.bottomRight(),
+        arg.bottomLeft(),
+      ]
+      return overlapsOnAxes(corners, other, [
+        ...this.axes(),
+        new Vector(1, 0),
+        new Vector(0, 1),
+      ])
+    }
+
+    if (arg instanceof OrientedRectangle) {
+      return overlapsOnAxes(corners, arg.corners(), [
+        ...this.axes(),
+        ...arg.axes(),
+      ])
+    }
+
+    // arg is Polygon
+    if (arg.vertices.length === 0) return false
+    if (!arg.isConvex()) return this.toPolygon().intersects(arg)
+
+    const edgeNormals = arg
+      .getEdges()
+      .filter((edge) => edge.length() > 0)
+      .map((edge) => edge.normal())
+    return overlapsOnAxes(corners, arg.vertices, [
+      ...this.axes(),
+      ...edgeNormals,
+    ])
+  }
+
+  /**
+   * Calculates the axis-aligned bounding box of this rectangle.
+   * @returns A new Rectangle representing the bounding box.
+   */
+  public boundingBox(): Rectangle {
+    return this.toPolygon().boundingBox()
+  }
+
+  /**
+   * Converts this rectangle to a closed polygon through its corners.
+   * @returns A new Polygon.
+   */
+  public toPolygon(): Polygon {
+    return new Polygon(this.corners()).close()
+  }
+
+  /**
+   * Creates a new OrientedRectangle instance with the same properties as this rectangle.
+   * @returns A new OrientedRectangle instance (a clone).
+   */
+  public clone(): OrientedRectangle {
+    return new OrientedRectangle(
+      this.center.clone(),
+      this.width,
+      this.height,
+      this.rotation,
+    )
+  }
+
+  /**
+   * Checks if this rectangle is equal to another oriented rectangle within a given tolerance.
+   * Rectangles that cover the same area with different rotations (e.g. rotated by PI) are not considered equal.
+   * @param rect The rectangle to compare with.
+   * @param tolerance The maximum difference allowed for properties to be considered equal. Defaults to 1e-10.
+   * @returns True if the rectangles are equal within tolerance, false otherwise.
+   */
+  public equals(rect: OrientedRectangle, tolerance: number = 1e-10): boolean {
+    return (
+      this.center.equals(rect.center, tolerance) &&
+      Math.abs(this.width - rect.width) < tolerance &&
+      Math.abs(this.height - rect.height) < tolerance &&
+      Math.abs(this.rotation - rect.rotation) < tolerance
+    )
+  }
+
+  /**
+   * Returns a string representation of this rectangle.
+   * @returns A string in the format "OrientedRectangle(Point(x, y), width, height, rotation)".
+   */
+  public toString(): string {
+    return `OrientedRectangle(${this.center.toString()}, ${this.width}, ${this.height}, ${this.rotation})`
+  }
+
+  // Static methods
+
+  /**
+   * Creates a new OrientedRectangle from an axis-aligned Rectangle rotated around its center.
+   * @param rect The rectangle.
+   * @param rotation The rotation in radians. Defaults to 0.
+   * @returns A new OrientedRectangle instance.
+   */
+  public static fromRectangle(
+    rect: Rectangle,
+    rotation: number = 0,
+  ): OrientedRectangle {
+    const normalized = rect.clone().normalize()
+    return new OrientedRectangle(
+      normalized.center(),
+      normalized.width,
+      normalized.height,
+      rotation,
+    )
+  }
+}
+
+/**
+ * A Circle as plain JSON, with its center flattened to `x` and `y`.
+ */
+export interface CircleJSON {
+  type: typeof GeometryType.Circle
+  x: number
+  y: number
+  radius: number
+}
+
+/**
+ * Represents a circle defined by its center point and radius.
+ */
+export class Circle {
+  /** The center point of the circle. */
+  public center: Point
+  /** The radius of the circle. Should be non-negative. */
+  public radius: number
+
+  /**
+   * Creates a new Circle instance.
+   * @param center The center point of the circle. Defaults to Point.zero.
+   * @param radius The radius of the circle. Defaults to 0.
+   */
+  constructor(center: Point = Point.zero, radius: number = 0) {
+    this.center = center
+    this.radius = radius
+  }
+
+  // Chainable methods
+
+  /**
+   * Translates (moves) the circle by given deltas.
+   * Modifies this circle's center and returns it for chaining.
+   * @param dx The amount to move in the x-direction.
+   * @param dy The amount to move in the y-direction.
+   * @returns This circle after translation.
+   */
+  public translate(dx: number, dy: number): Circle {
+    this.center.add(new Point(dx, dy))
+    return this
+  }
+
+  /**
+   * Scales the circle's radius by a given factor.
+   * The center remains unchanged.
+   * Modifies this circle's radius and returns it for chaining.
+   * @param factor The factor to scale the radius by.
    * @returns This circle after scaling.
    */
   public scale(factor: number): Circle {
@@ -912,158 +1866,1070 @@ export class Circle {
     return this
   }
 
-  // Utility methods
-
   /**
-   * Calculates the area of the circle.
-   * @returns The area of the circle.
+   * Transforms this circle by an affine matrix.
+   * The radius is scaled by the square root of the area scale factor, which is exact for
+   * translation, rotation and uniform scaling; other transforms would turn the circle into an ellipse.
+   * Modifies this circle and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This circle after transformation.
+   */
+  public transform(matrix: Matrix): Circle {
+    this.center.transform(matrix)
+    this.radius *= Math.sqrt(Math.abs(matrix.determinant()))
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Calculates the area of the circle.
+   * @returns The area of the circle.
+   */
+  public area(): number {
+    return Math.PI * this.radius * this.radius
+  }
+
+  /**
+   * Calculates the circumference of the circle.
+   * @returns The circumference of the circle.
+   */
+  public circumference(): number {
+    return 2 * Math.PI * this.radius
+  }
+
+  /**
+   * Checks if this circle contains a given point.
+   * A point on the boundary is considered contained.
+   * @param point The point to check.
+   * @returns True if the point is inside or on the boundary of the circle, false otherwise.
+   */
+  public contains(point: Point): boolean {
+    return this.center.distanceTo(point) <= this.radius
+  }
+
+  /**
+   * Checks if this circle intersects with another circle or a rectangle.
+   * @param arg Another Circle or a Rectangle.
+   * @returns True if this circle intersects with the given shape, false otherwise.
+   */
+  public intersects(arg: Circle | Rectangle): boolean {
+    if (arg instanceof Circle) {
+      const distance = this.center.distanceTo(arg.center)
+      return distance <= this.radius + arg.radius
+    } else {
+      // arg is Rectangle
+      // Find the closest point on the rectangle to the circle's center
+      const closestX = Math.max(arg.x, Math.min(this.center.x, arg.right))
+      const closestY = Math.max(arg.y, Math.min(this.center.y, arg.bottom))
+      const distanceToClosestPoint = this.center.distanceTo(
+        new Point(closestX, closestY),
+      )
+      return distanceToClosestPoint <= this.radius
+    }
+  }
+
+  /**
+   * Calculates the axis-aligned bounding box of this circle.
+   * @returns A new Rectangle representing the bounding box.
+   */
+  public boundingBox(): Rectangle {
+    return new Rectangle(
+      this.center.x - this.radius,
+      this.center.y - this.radius,
+      this.radius * 2,
+      this.radius * 2,
+    )
+  }
+
+  /**
+   * Gets a point on the circumference of the circle at a given angle.
+   * @param angle The angle in radians (0 is typically to the right along the x-axis).
+   * @returns A new Point on the circle's circumference.
+   */
+  public pointAt(angle: number): Point {
+    return new Point(
+      this.center.x + Math.cos(angle) * this.radius,
+      this.center.y + Math.sin(angle) * this.radius,
+    )
+  }
+
+  /**
+   * Creates a new Circle instance with the same center and radius as this circle.
+   * @returns A new Circle instance (a clone).
+   */
+  public clone(): Circle {
+    return new Circle(this.center.clone(), this.radius)
+  }
+
+  /**
+   * Checks if this circle is equal to another circle within a given tolerance.
+   * @param circle The circle to compare with.
+   * @param tolerance The maximum difference allowed for center coordinates and radius to be considered equal. Defaults to 1e-10.
+   * @returns True if the circles are equal within tolerance, false otherwise.
+   */
+  public equals(circle: Circle, tolerance: number = 1e-10): boolean {
+    return (
+      this.center.equals(circle.center, tolerance) &&
+      Math.abs(this.radius - circle.radius) < tolerance
+    )
+  }
+
+  /**
+   * Converts this circle to plain JSON, e.g. for storage or `JSON.stringify`.
+   * @returns The JSON representation.
+   */
+  public toJSON(): CircleJSON {
+    return {
+      type: GeometryType.Circle,
+      x: this.center.x,
+      y: this.center.y,
+      radius: this.radius,
+    }
+  }
+
+  /**
+   * Returns a string representation of this circle.
+   * @returns A string in the format "Circle(Point(x, y), radius)".
+   */
+  public toString(): string {
+    return `Circle(${this.center.toString()}, ${this.radius})`
+  }
+
+  // Static methods
+
+  /**
+   * Creates a new Circle that passes through three given points.
+   * @param p1 The first point.
+   * @param p2 The second point.
+   * @param p3 The third point.
+   * @returns A new Circle instance, or null if the points are collinear (no unique circle can be formed).
+   */
+  public static fromThreePoints(
+    p1: Point,
+    p2: Point,
+    p3: Point,
+  ): Circle | null {
+    // Using the formula for the circumcircle of a triangle.
+    // Denominator of the center coordinates
+    const D =
+      2 * (p1.x * (p2.y - p3.y) + p2.x * (p3.y - p1.y) + p3.x * (p1.y - p2.y))
+
+    if (Math.abs(D) < 1e-10) return null // Points are collinear
+
+    const p1Sq = p1.x * p1.x + p1.y * p1.y
+    const p2Sq = p2.x * p2.x + p2.y * p2.y
+    const p3Sq = p3.x * p3.x + p3.y * p3.y
+
+    const centerX =
+      (p1Sq * (p2.y - p3.y) + p2Sq * (p3.y - p1.y) + p3Sq * (p1.y - p2.y)) / D
+    const centerY =
+      (p1Sq * (p3.x - p2.x) + p2Sq * (p1.x - p3.x) + p3Sq * (p2.x - p1.x)) / D
+
+    const center = new Point(centerX, centerY)
+    const radius = center.distanceTo(p1)
+
+    return new Circle(center, radius)
+  }
+
+  /**
+   * Creates a new Circle from two points defining its diameter.
+   * @param p1 One end point of the diameter.
+   * @param p2 The other end point of the diameter.
+   * @returns A new Circle instance.
+   */
+  public static fromDiameter(p1: Point, p2: Point): Circle {
+    const center = Point.midpoint(p1, p2)
+    const radius = Point.distance(p1, p2) / 2
+    return new Circle(center, radius)
+  }
+
+  /**
+   * Recreates a Circle from plain JSON.
+   * @param data The output of `toJSON`.
+   * @returns A new Circle.
+   * @throws If the data isn't tagged as a circle.
+   */
+  public static fromJSON(data: CircleJSON): Circle {
+    assertGeometryType(data, GeometryType.Circle)
+    return new Circle(new Point(data.x, data.y), data.radius)
+  }
+}
+
+/**
+ * Wraps an angle into [0, 2 * PI).
+ */
+function wrapAngle(angle: number): number {
+  const fullTurn = Math.PI * 2
+  return ((angle % fullTurn) + fullTurn) % fullTurn
+}
+
+/**
+ * An Ellipse as plain JSON, with its center flattened to `x` and `y`.
+ */
+export interface EllipseJSON {
+  type: typeof GeometryType.Ellipse
+  x: number
+  y: number
+  radiusX: number
+  radiusY: number
+  rotation: number
+}
+
+/**
+ * Represents an ellipse defined by a center, two radii and a rotation.
+ */
+export class Ellipse {
+  /** The center point of the ellipse. */
+  public center: Point
+  /** The radius along the ellipse's own x-axis. Should be non-negative. */
+  public radiusX: number
+  /** The radius along the ellipse's own y-axis. Should be non-negative. */
+  public radiusY: number
+  /** The rotation of the ellipse's x-axis in radians. */
+  public rotation: number
+
+  /**
+   * Creates a new Ellipse instance.
+   * @param center The center point of the ellipse. Defaults to Point.zero.
+   * @param radiusX The radius along the ellipse's x-axis. Defaults to 0.
+   * @param radiusY The radius along the ellipse's y-axis. Defaults to 0.
+   * @param rotation The rotation in radians. Defaults to 0.
+   */
+  constructor(
+    center: Point = Point.zero,
+    radiusX: number = 0,
+    radiusY: number = 0,
+    rotation: number = 0,
+  ) {
+    this.center = center
+    this.radiusX = radiusX
+    this.radiusY = radiusY
+    this.rotation = rotation
+  }
+
+  // Chainable methods
+
+  /**
+   * Translates (moves) the ellipse by given deltas.
+   * Modifies this ellipse's center and returns it for chaining.
+   * @param dx The amount to move in the x-direction.
+   * @param dy The amount to move in the y-direction.
+   * @returns This ellipse after translation.
+   */
+  public translate(dx: number, dy: number): Ellipse {
+    this.center.add(new Point(dx, dy))
+    return this
+  }
+
+  /**
+   * Scales the ellipse's radii by given factors along its own axes.
+   * The center remains unchanged.
+   * Modifies this ellipse's radii and returns it for chaining.
+   * @param scaleX The factor to scale the x-radius by.
+   * @param scaleY The factor to scale the y-radius by. If undefined, `scaleX` is used.
+   * @returns This ellipse after scaling.
+   */
+  public scale(scaleX: number, scaleY: number = scaleX): Ellipse {
+    this.radiusX *= scaleX
+    this.radiusY *= scaleY
+    return this
+  }
+
+  /**
+   * Rotates the ellipse by a given angle.
+   * Modifies this ellipse and returns it for chaining.
+   * @param angle The angle in radians.
+   * @param origin The point about which to rotate. Defaults to the ellipse's center.
+   * @returns This ellipse after rotation.
+   */
+  public rotate(angle: number, origin?: Point): Ellipse {
+    if (origin) {
+      this.center.subtract(origin).rotate(angle).add(origin)
+    }
+    this.rotation += angle
+    return this
+  }
+
+  /**
+   * Transforms this ellipse by an affine matrix. The image of an ellipse under an affine
+   * transform is an ellipse, so this is exact; the radii and rotation are recomputed
+   * from the transformed axes, with radiusX as the major radius.
+   * Modifies this ellipse and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This ellipse after transformation.
+   */
+  public transform(matrix: Matrix): Ellipse {
+    const axes = Matrix.multiply(matrix, this.getMatrix())
+    // Eigen decomposition of axes × axesᵀ gives the squared radii and their directions
+    const p = axes.a * axes.a + axes.c * axes.c
+    const q = axes.a * axes.b + axes.c * axes.d
+    const r = axes.b * axes.b + axes.d * axes.d
+    const mean = (p + r) / 2
+    const spread = Math.hypot((p - r) / 2, q)
+
+    this.center.transform(matrix)
+    this.radiusX = Math.sqrt(mean + spread)
+    this.radiusY = Math.sqrt(Math.max(0, mean - spread))
+    this.rotation = Math.atan2(2 * q, p - r) / 2
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Gets the transform mapping the unit circle onto this ellipse.
+   * @returns A new Matrix.
+   */
+  public getMatrix(): Matrix {
+    return Matrix.translation(this.center.x, this.center.y)
+      .rotate(this.rotation)
+      .scale(this.radiusX, this.radiusY)
+  }
+
+  /**
+   * Converts a point to the ellipse's local frame: centered, with the ellipse's axes along x and y.
+   */
+  private toLocal(point: Point): Point {
+    return point.clone().subtract(this.center).rotate(-this.rotation)
+  }
+
+  /**
+   * Calculates the area of the ellipse.
+   * @returns The area of the ellipse.
+   */
+  public area(): number {
+    return Math.PI * this.radiusX * this.radiusY
+  }
+
+  /**
+   * Approximates the circumference of the ellipse using Ramanujan's second formula,
+   * which is exact for circles and within 0.0004% for any ellipse.
+   * @returns The circumference of the ellipse.
+   */
+  public circumference(): number {
+    const a = this.radiusX
+    const b = this.radiusY
+    if (a + b === 0) return 0
+
+    const h = ((a - b) * (a - b)) / ((a + b) * (a + b))
+    return Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)))
+  }
+
+  /**
+   * Checks if this ellipse contains a given point.
+   * A point on the boundary is considered contained.
+   * @param point The point to check.
+   * @returns True if the point is inside or on the boundary of the ellipse, false otherwise.
+   */
+  public contains(point: Point): boolean {
+    if (this.radiusX <= 0 || this.radiusY <= 0) return false
+
+    const local = this.toLocal(point)
+    const x = local.x / this.radiusX
+    const y = local.y / this.radiusY
+    return x * x + y * y <= 1 + 1e-10
+  }
+
+  /**
+   * Finds the point on the ellipse's boundary closest to a given point.
+   * Uses a fast iteration along the ellipse's evolute, accurate to about 1e-10 relative error.
+   * @param point The point.
+   * @returns A new Point on the boundary.
+   */
+  public nearestPoint(point: Point): Point {
+    const local = this.toLocal(point)
+    const a = Math.abs(this.radiusX)
+    const b = Math.abs(this.radiusY)
+    const px = Math.abs(local.x)
+    const py = Math.abs(local.y)
+
+    let tx = Math.SQRT1_2
+    let ty = Math.SQRT1_2
+
+    if (a > 0 && b > 0) {
+      for (let i = 0; i < 4; i++) {
+        const x = a * tx
+        const y = b * ty
+        // Center of curvature at the current guess
+        const ex = ((a * a - b * b) * tx ** 3) / a
+        const ey = ((b * b - a * a) * ty ** 3) / b
+
+        const r = Math.hypot(x - ex, y - ey)
+        const q = Math.hypot(px - ex, py - ey)
+        if (q === 0) break
+
+        tx = Math.min(1, Math.max(0, (((px - ex) * r) / q + ex) / a))
+        ty = Math.min(1, Math.max(0, (((py - ey) * r) / q + ey) / b))
+        const t = Math.hypot(tx, ty)
+        tx /= t
+        ty /= t
+      }
+    } else {
+      // Degenerate ellipse: a segment along one axis
+      tx = a > 0 ? Math.min(1, px / a) : 0
+      ty = b > 0 ? Math.min(1, py / b) : 0
+    }
+
+    return new Point(
+      Math.sign(local.x || 1) * a * tx,
+      Math.sign(local.y || 1) * b * ty,
+    )
+      .rotate(this.rotation)
+      .add(this.center)
+  }
+
+  /**
+   * Calculates the shortest distance from a point to the ellipse's boundary.
+   * @param point The point.
+   * @returns The distance, whether the point is inside or outside.
+   */
+  public distanceToPoint(point: Point): number {
+    return this.nearestPoint(point).distanceTo(point)
+  }
+
+  /**
+   * Finds the points where a line segment crosses the ellipse's boundary.
+   * An ellipse with a zero radius is the segment between its ends along the other axis.
+   * @param line The line segment.
+   * @returns New Points in order along the segment: none, one (tangent or one end inside) or two.
+   */
+  public intersectLine(line: Line): Point[] {
+    if (this.radiusX <= 0 || this.radiusY <= 0) {
+      const axis =
+        this.radiusY <= 0
+          ? new Line(this.pointAt(Math.PI), this.pointAt(0))
+          : new Line(this.pointAt(-Math.PI / 2), this.pointAt(Math.PI / 2))
+      const crossing = axis.intersects(line)
+      return crossing ? [crossing] : []
+    }
+
+    // In the ellipse's unit-circle space the problem is a circle-segment intersection
+    const start = this.toLocal(line.start)
+    const end = this.toLocal(line.end)
+    const sx = start.x / this.radiusX
+    const sy = start.y / this.radiusY
+    const dx = (end.x - start.x) / this.radiusX
+    const dy = (end.y - start.y) / this.radiusY
+
+    const a = dx * dx + dy * dy
+    const b = 2 * (sx * dx + sy * dy)
+    const c = sx * sx + sy * sy - 1
+    if (a === 0) return []
+
+    const discriminant = b * b - 4 * a * c
+    if (discriminant < -1e-12) return []
+
+    const root = Math.sqrt(Math.max(0, discriminant))
+    const ts =
+      root === 0
+        ? [-b / (2 * a)]
+        : [(-b - root) / (2 * a), (-b + root) / (2 * a)]
+
+    return ts
+      .filter((t) => t >= -1e-10 && t <= 1 + 1e-10)
+      .map((t) => line.pointAt(Math.min(1, Math.max(0, t))))
+  }
+
+  /**
+   * Checks if this ellipse overlaps with another shape.
+   * @param arg A Line, Rectangle, Circle or Ellipse.
+   * @returns True if the shapes share at least one point, false otherwise.
+   */
+  public intersects(arg: Line | Rectangle | Circle | Ellipse): boolean {
+    if (arg instanceof Line) {
+      return (
+        this.contains(arg.start) ||
+        this.contains(arg.end) ||
+        this.intersectLine(arg).length > 0
+      )
+    }
+
+    if (arg instanceof Rectangle) {
+      const rect = arg.clone().normalize()
+      return (
+        rect.contains(this.center) ||
+        Polygon.fromRectangle(rect)
+          .getEdges()
+          .some((edge) => this.intersects(edge))
+      )
+    }
+
+    if (this.radiusX <= 0 || this.radiusY <= 0) return false
+
+    // Map the other shape into the space where this ellipse is the unit circle
+    const other = arg instanceof Circle ? Ellipse.fromCircle(arg) : arg.clone()
+    other.transform(this.getMatrix().invert())
+    return other.contains(Point.zero) || other.distanceToPoint(Point.zero) <= 1
+  }
+
+  /**
+   * Calculates the axis-aligned bounding box of this ellipse.
+   * @returns A new Rectangle representing the bounding box.
+   */
+  public boundingBox(): Rectangle {
+    const cos = Math.cos(this.rotation)
+    const sin = Math.sin(this.rotation)
+    const halfWidth = Math.hypot(this.radiusX * cos, this.radiusY * sin)
+    const halfHeight = Math.hypot(this.radiusX * sin, this.radiusY * cos)
+
+    return new Rectangle(
+      this.center.x - halfWidth,
+      this.center.y - halfHeight,
+      halfWidth * 2,
+      halfHeight * 2,
+    )
+  }
+
+  /**
+   * Gets a point on the boundary of the ellipse at a given parametric angle,
+   * the same angle `ctx.ellipse` uses.
+   * @param angle The parametric angle in radians, measured from the ellipse's x-axis.
+   * @returns A new Point on the boundary.
+   */
+  public pointAt(angle: number): Point {
+    return new Point(
+      Math.cos(angle) * this.radiusX,
+      Math.sin(angle) * this.radiusY,
+    )
+      .rotate(this.rotation)
+      .add(this.center)
+  }
+
+  /**
+   * Gets the parametric angle of the boundary point in the direction of a given point.
+   * The inverse of `pointAt` for points on the boundary.
+   * @param point The point.
+   * @returns The angle in radians, in the range (-PI, PI].
+   */
+  public angleAt(point: Point): number {
+    const local = this.toLocal(point)
+    return Math.atan2(local.y / this.radiusY, local.x / this.radiusX)
+  }
+
+  /**
+   * Creates a new Ellipse instance with the same properties as this ellipse.
+   * @returns A new Ellipse instance (a clone).
+   */
+  public clone(): Ellipse {
+    return new Ellipse(
+      this.center.clone(),
+      this.radiusX,
+      this.radiusY,
+      this.rotation,
+    )
+  }
+
+  /**
+   * Checks if this ellipse is equal to another ellipse within a given tolerance.
+   * Compares properties directly, so an ellipse rotated by PI is not equal to the unrotated one.
+   * @param ellipse The ellipse to compare with.
+   * @param tolerance The maximum difference allowed for each property to be considered equal. Defaults to 1e-10.
+   * @returns True if the ellipses are equal within tolerance, false otherwise.
+   */
+  public equals(ellipse: Ellipse, tolerance: number = 1e-10): boolean {
+    return (
+      this.center.equals(ellipse.center, tolerance) &&
+      Math.abs(this.radiusX - ellipse.radiusX) < tolerance &&
+      Math.abs(this.radiusY - ellipse.radiusY) < tolerance &&
+      Math.abs(this.rotation - ellipse.rotation) < tolerance
+    )
+  }
+
+  /**
+   * Converts this ellipse to plain JSON, e.g. for storage or `JSON.stringify`.
+   * @returns The JSON representation.
+   */
+  public toJSON(): EllipseJSON {
+    const { center, radiusX, radiusY, rotation } = this
+    return {
+      type: GeometryType.Ellipse,
+      x: center.x,
+      y: center.y,
+      radiusX,
+      radiusY,
+      rotation,
+    }
+  }
+
+  /**
+   * Returns a string representation of this ellipse.
+   * @returns A string in the format "Ellipse(Point(x, y), radiusX, radiusY, rotation)".
+   */
+  public toString(): string {
+    return `Ellipse(${this.center.toString()}, ${this.radiusX}, ${this.radiusY}, ${this.rotation})`
+  }
+
+  // Static methods
+
+  /**
+   * Creates an ellipse with the same shape as a circle.
+   * @param circle The circle.
+   * @returns A new Ellipse instance.
+   */
+  public static fromCircle(circle: Circle): Ellipse {
+    return new Ellipse(circle.center.clone(), circle.radius, circle.radius)
+  }
+
+  /**
+   * Creates the axis-aligned ellipse inscribed in a rectangle.
+   * @param rect The rectangle.
+   * @returns A new Ellipse instance.
+   */
+  public static fromRectangle(rect: Rectangle): Ellipse {
+    const normalized = rect.clone().normalize()
+    return new Ellipse(
+      normalized.center(),
+      normalized.width / 2,
+      normalized.height / 2,
+    )
+  }
+
+  /**
+   * Recreates an Ellipse from plain JSON.
+   * @param data The output of `toJSON`.
+   * @returns A new Ellipse.
+   * @throws If the data isn't tagged as an ellipse.
+   */
+  public static fromJSON(data: EllipseJSON): Ellipse {
+    assertGeometryType(data, GeometryType.Ellipse)
+    return new Ellipse(
+      new Point(data.x, data.y),
+      data.radiusX,
+      data.radiusY,
+      data.rotation,
+    )
+  }
+}
+
+/**
+ * An Arc as plain JSON, with its center flattened to `x` and `y`.
+ */
+export interface ArcJSON {
+  type: typeof GeometryType.Arc
+  x: number
+  y: number
+  radiusX: number
+  radiusY: number
+  rotation: number
+  startAngle: number
+  endAngle: number
+  counterclockwise: boolean
+}
+
+/**
+ * Represents an arc of an ellipse, with the same parameters as `ctx.ellipse`.
+ * As a curve it goes from the start angle to the end angle; as an area (`contains`)
+ * it is the pie slice bounded by the curve and the radii to its ends.
+ */
+export class Arc {
+  /** The center point of the ellipse. */
+  public center: Point
+  /** The radius along the ellipse's own x-axis. Should be non-negative. */
+  public radiusX: number
+  /** The radius along the ellipse's own y-axis. Should be non-negative. */
+  public radiusY: number
+  /** The rotation of the ellipse's x-axis in radians. */
+  public rotation: number
+  /** The parametric start angle in radians. */
+  public startAngle: number
+  /** The parametric end angle in radians. */
+  public endAngle: number
+  /** Whether the arc goes counter-clockwise on screen from the start to the end angle. */
+  public counterclockwise: boolean
+
+  /**
+   * Creates a new Arc instance.
+   * @param center The center point of the ellipse. Defaults to Point.zero.
+   * @param radiusX The radius along the ellipse's x-axis. Defaults to 0.
+   * @param radiusY The radius along the ellipse's y-axis. Defaults to 0.
+   * @param rotation The rotation of the ellipse in radians. Defaults to 0.
+   * @param startAngle The parametric start angle in radians. Defaults to 0.
+   * @param endAngle The parametric end angle in radians. Defaults to 2 * PI.
+   * @param counterclockwise Whether the arc goes counter-clockwise. Defaults to false.
+   */
+  constructor(
+    center: Point = Point.zero,
+    radiusX: number = 0,
+    radiusY: number = 0,
+    rotation: number = 0,
+    startAngle: number = 0,
+    endAngle: number = Math.PI * 2,
+    counterclockwise: boolean = false,
+  ) {
+    this.center = center
+    this.radiusX = radiusX
+    this.radiusY = radiusY
+    this.rotation = rotation
+    this.startAngle = startAngle
+    this.endAngle = endAngle
+    this.counterclockwise = counterclockwise
+  }
+
+  // Chainable methods
+
+  /**
+   * Translates (moves) the arc by given deltas.
+   * Modifies this arc's center and returns it for chaining.
+   * @param dx The amount to move in the x-direction.
+   * @param dy The amount to move in the y-direction.
+   * @returns This arc after translation.
+   */
+  public translate(dx: number, dy: number): Arc {
+    this.center.add(new Point(dx, dy))
+    return this
+  }
+
+  /**
+   * Scales the arc's radii by given factors along its ellipse's own axes.
+   * The center and angles remain unchanged.
+   * Modifies this arc's radii and returns it for chaining.
+   * @param scaleX The factor to scale the x-radius by.
+   * @param scaleY The factor to scale the y-radius by. If undefined, `scaleX` is used.
+   * @returns This arc after scaling.
+   */
+  public scale(scaleX: number, scaleY: number = scaleX): Arc {
+    this.radiusX *= scaleX
+    this.radiusY *= scaleY
+    return this
+  }
+
+  /**
+   * Rotates the arc by a given angle.
+   * Modifies this arc and returns it for chaining.
+   * @param angle The angle in radians.
+   * @param origin The point about which to rotate. Defaults to the arc's center.
+   * @returns This arc after rotation.
+   */
+  public rotate(angle: number, origin?: Point): Arc {
+    if (origin) {
+      this.center.subtract(origin).rotate(angle).add(origin)
+    }
+    this.rotation += angle
+    return this
+  }
+
+  /**
+   * Transforms this arc by an affine matrix. This is exact: the ellipse is transformed,
+   * then the angles are recomputed so that the arc keeps its transformed end points.
+   * A reflection reverses the direction.
+   * Modifies this arc and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This arc after transformation.
+   */
+  public transform(matrix: Matrix): Arc {
+    const sweep = this.sweep()
+    const start = this.startPoint().transform(matrix)
+    const ellipse = this.toEllipse().transform(matrix)
+    const reflects = matrix.determinant() < 0
+
+    this.center = ellipse.center
+    this.radiusX = ellipse.radiusX
+    this.radiusY = ellipse.radiusY
+    this.rotation = ellipse.rotation
+    this.startAngle = ellipse.angleAt(start)
+    // The sweep measured in parametric angle is preserved up to its direction
+    this.endAngle = this.startAngle + (reflects ? -sweep : sweep)
+    this.counterclockwise = reflects
+      ? !this.counterclockwise
+      : this.counterclockwise
+    return this
+  }
+
+  // Utility methods
+
+  /**
+   * Calculates the signed parametric angle the arc spans, like `ctx.ellipse` draws it.
+   * Positive goes clockwise on screen (increasing angle).
+   * @returns The sweep in radians, in [-2 * PI, 2 * PI].
+   */
+  public sweep(): number {
+    const fullTurn = Math.PI * 2
+    const delta = this.endAngle - this.startAngle
+
+    if (!this.counterclockwise) {
+      return delta >= fullTurn ? fullTurn : wrapAngle(delta)
+    }
+    return delta <= -fullTurn ? -fullTurn : -wrapAngle(-delta)
+  }
+
+  /**
+   * Checks if a parametric angle lies within the arc's sweep.
+   * @param angle The angle in radians.
+   * @returns True if the arc passes through the angle, false otherwise.
+   */
+  public containsAngle(angle: number): boolean {
+    const sweep = this.sweep()
+    const offset =
+      sweep >= 0
+        ? wrapAngle(angle - this.startAngle)
+        : wrapAngle(this.startAngle - angle)
+    return offset <= Math.abs(sweep) + 1e-10 || offset >= Math.PI * 2 - 1e-10
+  }
+
+  /**
+   * Gets the full ellipse this arc is part of.
+   * @returns A new Ellipse instance.
+   */
+  public toEllipse(): Ellipse {
+    return new Ellipse(
+      this.center.clone(),
+      this.radiusX,
+      this.radiusY,
+      this.rotation,
+    )
+  }
+
+  /**
+   * Gets a point along the arc.
+   * @param t The fraction of the sweep, between 0 (start) and 1 (end).
+   * @returns A new Point on the arc.
+   */
+  public pointAt(t: number): Point {
+    return this.toEllipse().pointAt(this.startAngle + this.sweep() * t)
+  }
+
+  /**
+   * Gets the first point of the arc.
+   * @returns A new Point.
+   */
+  public startPoint(): Point {
+    return this.pointAt(0)
+  }
+
+  /**
+   * Gets the last point of the arc.
+   * @returns A new Point.
    */
-  public area(): number {
-    return Math.PI * this.radius * this.radius
+  public endPoint(): Point {
+    return this.pointAt(1)
   }
 
   /**
-   * Calculates the circumference of the circle.
-   * @returns The circumference of the circle.
+   * Calculates the length of the arc by numerical integration.
+   * @returns The length of the arc.
    */
-  public circumference(): number {
-    return 2 * Math.PI * this.radius
+  public length(): number {
+    const sweep = this.sweep()
+    const steps = 64
+    const speed = (angle: number) =>
+      Math.hypot(this.radiusX * Math.sin(angle), this.radiusY * Math.cos(angle))
+
+    // Composite Simpson's rule
+    const h = sweep / steps
+    let sum = speed(this.startAngle) + speed(this.startAngle + sweep)
+    for (let i = 1; i < steps; i++) {
+      sum += (i % 2 === 0 ? 2 : 4) * speed(this.startAngle + i * h)
+    }
+    return Math.abs((sum * h) / 3)
   }
 
   /**
-   * Checks if this circle contains a given point.
+   * Checks if a point is inside the pie slice bounded by the arc and the radii to its ends.
    * A point on the boundary is considered contained.
    * @param point The point to check.
-   * @returns True if the point is inside or on the boundary of the circle, false otherwise.
+   * @returns True if the point is inside or on the boundary of the slice, false otherwise.
    */
   public contains(point: Point): boolean {
-    return this.center.distanceTo(point) <= this.radius
+    const ellipse = this.toEllipse()
+    if (!ellipse.contains(point)) return false
+    if (point.equals(this.center)) return true
+    return this.containsAngle(ellipse.angleAt(point))
   }
 
   /**
-   * Checks if this circle intersects with another circle or a rectangle.
-   * @param arg Another Circle or a Rectangle.
-   * @returns True if this circle intersects with the given shape, false otherwise.
+   * Finds the points where a line segment crosses the arc's curve.
+   * @param line The line segment.
+   * @returns New Points in order along the segment.
    */
-  public intersects(arg: Circle | Rectangle): boolean {
-    if (arg instanceof Circle) {
-      const distance = this.center.distanceTo(arg.center)
-      return distance <= this.radius + arg.radius
-    } else {
-      // arg is Rectangle
-      // Find the closest point on the rectangle to the circle's center
-      const closestX = Math.max(arg.x, Math.min(this.center.x, arg.right))
-      const closestY = Math.max(arg.y, Math.min(this.center.y, arg.bottom))
-      const distanceToClosestPoint = this.center.distanceTo(
-        new Point(closestX, closestY),
-      )
-      return distanceToClosestPoint <= this.radius
-    }
+  public intersectLine(line: Line): Point[] {
+    const ellipse = this.toEllipse()
+    return ellipse
+      .intersectLine(line)
+      .filter((point) => this.containsAngle(ellipse.angleAt(point)))
   }
 
   /**
-   * Calculates the axis-aligned bounding box of this circle.
+   * Checks if the arc's curve touches a line segment or a rectangle.
+   * @param arg A Line or a Rectangle.
+   * @returns True if the curve crosses the line, or crosses or lies within the rectangle.
+   */
+  public intersects(arg: Line | Rectangle): boolean {
+    if (arg instanceof Line) return this.intersectLine(arg).length > 0
+
+    const rect = arg.clone().normalize()
+    return (
+      rect.contains(this.startPoint()) ||
+      Polygon.fromRectangle(rect)
+        .getEdges()
+        .some((edge) => this.intersectLine(edge).length > 0)
+    )
+  }
+
+  /**
+   * Calculates the tight axis-aligned bounding box of the arc's curve.
    * @returns A new Rectangle representing the bounding box.
    */
   public boundingBox(): Rectangle {
-    return new Rectangle(
-      this.center.x - this.radius,
-      this.center.y - this.radius,
-      this.radius * 2,
-      this.radius * 2,
-    )
+    const cos = Math.cos(this.rotation)
+    const sin = Math.sin(this.rotation)
+    // Parametric angles where the curve is horizontal or vertical
+    const xExtreme = Math.atan2(-this.radiusY * sin, this.radiusX * cos)
+    const yExtreme = Math.atan2(this.radiusY * cos, this.radiusX * sin)
+    const ellipse = this.toEllipse()
+
+    const points = [this.startPoint(), this.endPoint()]
+    for (const angle of [
+      xExtreme,
+      xExtreme + Math.PI,
+      yExtreme,
+      yExtreme + Math.PI,
+    ]) {
+      if (this.containsAngle(angle)) points.push(ellipse.pointAt(angle))
+    }
+    return new Polygon(points).boundingBox()
   }
 
   /**
-   * Gets a point on the circumference of the circle at a given angle.
-   * @param angle The angle in radians (0 is typically to the right along the x-axis).
-   * @returns A new Point on the circle's circumference.
+   * Approximates the arc with an open polygon.
+   * @param segments The number of line segments to use. Must be 1 or more. Defaults to 32.
+   * @returns A new Polygon from the start point to the end point.
+   * @throws Error if segments is less than 1.
    */
-  public pointAt(angle: number): Point {
-    return new Point(
-      this.center.x + Math.cos(angle) * this.radius,
-      this.center.y + Math.sin(angle) * this.radius,
-    )
+  public toPolygon(segments: number = 32): Polygon {
+    if (segments < 1) {
+      throw new Error('Arc approximation must have at least 1 segment')
+    }
+
+    const vertices: Point[] = []
+    for (let i = 0; i <= segments; i++) {
+      vertices.push(this.pointAt(i / segments))
+    }
+    return new Polygon(vertices)
   }
 
   /**
-   * Creates a new Circle instance with the same center and radius as this circle.
-   * @returns A new Circle instance (a clone).
+   * Creates a new Arc instance with the same properties as this arc.
+   * @returns A new Arc instance (a clone).
    */
-  public clone(): Circle {
-    return new Circle(this.center.clone(), this.radius)
+  public clone(): Arc {
+    return new Arc(
+      this.center.clone(),
+      this.radiusX,
+      this.radiusY,
+      this.rotation,
+      this.startAngle,
+      this.endAngle,
+      this.counterclockwise,
+    )
   }
 
   /**
-   * Checks if this circle is equal to another circle within a given tolerance.
-   * @param circle The circle to compare with.
-   * @param tolerance The maximum difference allowed for center coordinates and radius to be considered equal. Defaults to 1e-10.
-   * @returns True if the circles are equal within tolerance, false otherwise.
+   * Checks if this arc is equal to another arc within a given tolerance.
+   * @param arc The arc to compare with.
+   * @param tolerance The maximum difference allowed for each property to be considered equal. Defaults to 1e-10.
+   * @returns True if the arcs are equal within tolerance, false otherwise.
    */
-  public equals(circle: Circle, tolerance: number = 1e-10): boolean {
+  public equals(arc: Arc, tolerance: number = 1e-10): boolean {
     return (
-      this.center.equals(circle.center, tolerance) &&
-      Math.abs(this.radius - circle.radius) < tolerance
+      this.center.equals(arc.center, tolerance) &&
+      Math.abs(this.radiusX - arc.radiusX) < tolerance &&
+      Math.abs(this.radiusY - arc.radiusY) < tolerance &&
+      Math.abs(this.rotation - arc.rotation) < tolerance &&
+      Math.abs(this.startAngle - arc.startAngle) < tolerance &&
+      Math.abs(this.endAngle - arc.endAngle) < tolerance &&
+      this.counterclockwise === arc.counterclockwise
     )
   }
 
   /**
-   * Returns a string representation of this circle.
-   * @returns A string in the format "Circle(Point(x, y), radius)".
+   * Converts this arc to plain JSON, e.g. for storage or `JSON.stringify`.
+   * @returns The JSON representation.
+   */
+  public toJSON(): ArcJSON {
+    const { center, radiusX, radiusY, rotation } = this
+    const { startAngle, endAngle, counterclockwise } = this
+    return {
+      type: GeometryType.Arc,
+      x: center.x,
+      y: center.y,
+      radiusX,
+      radiusY,
+      rotation,
+      startAngle,
+      endAngle,
+      counterclockwise,
+    }
+  }
+
+  /**
+   * Returns a string representation of this arc.
+   * @returns A string in the format "Arc(Point(x, y), radiusX, radiusY, rotation, startAngle, endAngle, counterclockwise)".
    */
   public toString(): string {
-    return `Circle(${this.center.toString()}, ${this.radius})`
+    return `Arc(${this.center.toString()}, ${this.radiusX}, ${this.radiusY}, ${this.rotation}, ${this.startAngle}, ${this.endAngle}, ${this.counterclockwise})`
   }
 
   // Static methods
 
   /**
-   * Creates a new Circle that passes through three given points.
-   * @param p1 The first point.
-   * @param p2 The second point.
-   * @param p3 The third point.
-   * @returns A new Circle instance, or null if the points are collinear (no unique circle can be formed).
+   * Creates a circular arc, like `ctx.arc`.
+   * @param center The center of the circle.
+   * @param radius The radius of the circle.
+   * @param startAngle The start angle in radians.
+   * @param endAngle The end angle in radians.
+   * @param counterclockwise Whether the arc goes counter-clockwise. Defaults to false.
+   * @returns A new Arc instance.
    */
-  public static fromThreePoints(
-    p1: Point,
-    p2: Point,
-    p3: Point,
-  ): Circle | null {
-    // Using the formula for the circumcircle of a triangle.
-    // Denominator of the center coordinates
-    const D =
-      2 * (p1.x * (p2.y - p3.y) + p2.x * (p3.y - p1.y) + p3.x * (p1.y - p2.y))
-
-    if (Math.abs(D) < 1e-10) return null // Points are collinear
-
-    const p1Sq = p1.x * p1.x + p1.y * p1.y
-    const p2Sq = p2.x * p2.x + p2.y * p2.y
-    const p3Sq = p3.x * p3.x + p3.y * p3.y
-
-    const centerX =
-      (p1Sq * (p2.y - p3.y) + p2Sq * (p3.y - p1.y) + p3Sq * (p1.y - p2.y)) / D
-    const centerY =
-      (p1Sq * (p3.x - p2.x) + p2Sq * (p1.x - p3.x) + p3Sq * (p2.x - p1.x)) / D
-
-    const center = new Point(centerX, centerY)
-    const radius = center.distanceTo(p1)
-
-    return new Circle(center, radius)
+  public static fromCircle(
+    center: Point,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise: boolean = false,
+  ): Arc {
+    return new Arc(
+      center,
+      radius,
+      radius,
+      0,
+      startAngle,
+      endAngle,
+      counterclockwise,
+    )
   }
 
   /**
-   * Creates a new Circle from two points defining its diameter.
-   * @param p1 One end point of the diameter.
-   * @param p2 The other end point of the diameter.
-   * @returns A new Circle instance.
+   * Recreates an Arc from plain JSON.
+   * @param data The output of `toJSON`.
+   * @returns A new Arc.
+   * @throws If the data isn't tagged as an arc.
    */
-  public static fromDiameter(p1: Point, p2: Point): Circle {
-    const center = Point.midpoint(p1, p2)
-    const radius = Point.distance(p1, p2) / 2
-    return new Circle(center, radius)
+  public static fromJSON(data: ArcJSON): Arc {
+    assertGeometryType(data, GeometryType.Arc)
+    return new Arc(
+      new Point(data.x, data.y),
+      data.radiusX,
+      data.radiusY,
+      data.rotation,
+      data.startAngle,
+      data.endAngle,
+      data.counterclockwise,
+    )
   }
 }
 
+/**
+ * A Line as plain JSON, with its end points flattened to `x1`, `y1`, `x2` and `y2`.
+ */
+export interface LineJSON {
+  type: typeof GeometryType.Line
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
 /**
  * Represents a line segment defined by a start and an end point.
  */
@@ -1124,6 +2990,18 @@ export class Line {
     return this
   }
 
+  /**
+   * Transforms this line by an affine matrix.
+   * Modifies the start and end points of this line and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This line after transformation.
+   */
+  public transform(matrix: Matrix): Line {
+    this.start.transform(matrix)
+    this.end.transform(matrix)
+    return this
+  }
+
   // Utility methods
 
   /**
@@ -1170,13 +3048,13 @@ export class Line {
   }
 
   /**
-   * Calculates the shortest distance from a point to this line segment.
-   * @param point The point to calculate the distance to.
-   * @returns The shortest distance from the point to the line segment.
+   * Finds the point of this line segment closest to a given point.
+   * @param point The point to project onto the segment.
+   * @returns A new Point on the line segment.
    */
-  public distanceToPoint(point: Point): number {
+  public closestPoint(point: Point): Point {
     const l2 = this.start.distanceTo(this.end) ** 2
-    if (l2 === 0) return point.distanceTo(this.start) // Line is a point
+    if (l2 === 0) return this.start.clone() // Line is a point
 
     // Consider the line extending the segment.
     // P = A + t (B - A)
@@ -1187,9 +3065,16 @@ export class Line {
       l2
 
     // Clamp t to the [0, 1] interval for the segment
-    const tClamped = Math.max(0, Math.min(1, t))
-    const projection = this.pointAt(tClamped)
-    return point.distanceTo(projection)
+    return this.pointAt(Math.max(0, Math.min(1, t)))
+  }
+
+  /**
+   * Calculates the shortest distance from a point to this line segment.
+   * @param point The point to calculate the distance to.
+   * @returns The shortest distance from the point to the line segment.
+   */
+  public distanceToPoint(point: Point): number {
+    return point.distanceTo(this.closestPoint(point))
   }
 
   /**
@@ -1273,6 +3158,21 @@ export class Line {
     )
   }
 
+  /**
+   * Converts this line segment to plain JSON, e.g. for storage or `JSON.stringify`.
+   * @returns The JSON representation.
+   */
+  public toJSON(): LineJSON {
+    const { start, end } = this
+    return {
+      type: GeometryType.Line,
+      x1: start.x,
+      y1: start.y,
+      x2: end.x,
+      y2: end.y,
+    }
+  }
+
   /**
    * Returns a string representation of this line segment.
    * @returns A string in the format "Line(Point(startX, startY), Point(endX, endY))".
@@ -1316,6 +3216,133 @@ export class Line {
     )
     return new Line(start.clone(), end)
   }
+
+  /**
+   * Recreates a Line from plain JSON.
+   * @param data The output of `toJSON`.
+   * @returns A new Line.
+   * @throws If the data isn't tagged as a line segment.
+   */
+  public static fromJSON(data: LineJSON): Line {
+    assertGeometryType(data, GeometryType.Line)
+    return new Line(new Point(data.x1, data.y1), new Point(data.x2, data.y2))
+  }
+}
+
+/**
+ * Ramer-Douglas-Peucker simplification of an open chain of points.
+ * Keeps the endpoints, then recursively keeps the point farthest from the segment between
+ * the kept points around it while that distance exceeds the tolerance.
+ * @returns The kept points, in order. They are not cloned.
+ */
+function simplifyChain(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return [...points]
+
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+
+  // Explicit stack of [first, last] index ranges, so long strokes can't overflow the call stack
+  const ranges: [number, number][] = [[0, points.length - 1]]
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!
+    const segment = new Line(points[first], points[last])
+    let farthest = -1
+    let maxDistance = tolerance
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = segment.distanceToPoint(points[i])
+      if (distance > maxDistance) {
+        farthest = i
+        maxDistance = distance
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true
+      ranges.push([first, farthest], [farthest, last])
+    }
+  }
+
+  return points.filter((_, i) => keep[i])
+}
+
+/**
+ * Splits a ring that crosses itself into loops that don't, by cutting it at every crossing.
+ * Each time the walk along the ring gets back to a crossing, the part walked since is a loop.
+ * @returns The loops, as open rings of new Points.
+ */
+function splitLoops(ring: Point[]): Point[][] {
+  const n = ring.length
+  const cuts: { t: number; id: number; point: Point }[][] = ring.map(() => [])
+  let crossings = 0
+
+  for (let i = 0; i < n; i++) {
+    const a = ring[i]
+    const b = ring[(i + 1) % n]
+    // Adjacent edges share a vertex, which isn't a crossing
+    for (let j = i + 2; j < (i === 0 ? n - 1 : n); j++) {
+      const c = ring[j]
+      const d = ring[(j + 1) % n]
+      const denominator = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x)
+      if (Math.abs(denominator) < 1e-12) continue
+
+      const t =
+        ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / denominator
+      const u =
+        ((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / denominator
+      // Half-open ranges, so a crossing at a vertex counts once
+      if (t < 0 || t >= 1 || u < 0 || u >= 1) continue
+
+      const point = new Point(a.x + t * (b.x - a.x), a.y + t * (b.y - a.y))
+      cuts[i].push({ t, id: crossings, point })
+      cuts[j].push({ t: u, id: crossings, point })
+      crossings++
+    }
+  }
+
+  if (crossings === 0) return [ring.map((vertex) => vertex.clone())]
+
+  const loops: Point[][] = []
+  const stack: { point: Point; id: number | null }[] = []
+
+  for (let i = 0; i < n; i++) {
+    stack.push({ point: ring[i].clone(), id: null })
+    for (const cut of cuts[i].sort((p, q) => p.t - q.t)) {
+      const first = stack.findIndex(({ id }) => id === cut.id)
+      if (first === -1) {
+        stack.push({ point: cut.point, id: cut.id })
+      } else {
+        loops.push(stack.splice(first + 1).map(({ point }) => point))
+        loops[loops.length - 1].unshift(cut.point.clone())
+      }
+    }
+  }
+  loops.push(stack.map(({ point }) => point))
+
+  return loops
+}
+
+/**
+ * How the outline of an offset polygon is joined around corners that open a gap.
+ */
+export const JoinType = {
+  /** Extends the edges until they meet, falling back to a bevel past the miter limit. */
+  Miter: 'miter',
+  /** Connects the edges with a circular arc. */
+  Round: 'round',
+  /** Connects the edges with a straight cut. */
+  Bevel: 'bevel',
+} as const
+
+export type JoinType = Enum<typeof JoinType>
+
+/**
+ * A Polygon as plain JSON, with its vertices as `[x, y]` pairs.
+ */
+export interface PolygonJSON {
+  type: typeof GeometryType.Polygon
+  points: [number, number][]
 }
 
 /**
@@ -1444,6 +3471,17 @@ export class Polygon {
     return this
   }
 
+  /**
+   * Transforms this polygon by an affine matrix.
+   * Modifies this polygon and returns it for chaining.
+   * @param matrix The transformation matrix.
+   * @returns This polygon after transformation.
+   */
+  public transform(matrix: Matrix): Polygon {
+    this.vertices.forEach((vertex) => vertex.transform(matrix))
+    return this
+  }
+
   // Utility methods
 
   /**
@@ -1732,61 +3770,256 @@ export class Polygon {
   }
 
   /**
-   * Simplifies the polygon using a basic version of the Ramer-Douglas-Peucker algorithm.
-   * Removes vertices whose perpendicular distance to the edge formed by its neighbors is less than the tolerance.
-   * The first and last vertices are always kept.
+   * Simplifies the polygon with the Ramer-Douglas-Peucker algorithm: drops every vertex
+   * that stays within the tolerance of the simplified outline.
+   * The first and last vertices of an open polygon are always kept. A closed polygon is
+   * split at its first vertex and the vertex farthest from it, which are both kept.
    * Modifies this polygon and returns it for chaining.
-   * @param tolerance The maximum distance for a point to be considered redundant. Defaults to 1e-10.
+   * @param tolerance The maximum distance between a dropped vertex and the simplified outline.
+   * Defaults to 1e-10, which only drops collinear vertices.
    * @returns This polygon after simplification.
    */
   public simplify(tolerance: number = 1e-10): Polygon {
     if (this.vertices.length <= 2) return this // Cannot simplify a line or point
 
-    const simplified: Point[] = [this.vertices[0].clone()] // Always keep the first point
+    if (!this.isClosed()) {
+      this.vertices = simplifyChain(this.vertices, tolerance).map((v) =>
+        v.clone(),
+      )
+      return this
+    }
+
+    // A closed ring has no endpoints to anchor on, so simplify its two halves between
+    // the first vertex and the one farthest from it
+    const ring = this.vertices.slice(0, -1)
+    let split = 0
+    for (let i = 1; i < ring.length; i++) {
+      if (ring[0].distanceTo(ring[i]) > ring[0].distanceTo(ring[split])) {
+        split = i
+      }
+    }
+    if (split === 0) return this // Every vertex is the same point
+
+    const first = simplifyChain(ring.slice(0, split + 1), tolerance)
+    const second = simplifyChain([...ring.slice(split), ring[0]], tolerance)
+
+    this.vertices = [...first, ...second.slice(1)].map((v) => v.clone())
+    return this
+  }
+
+  /**
+   * Calculates the signed area of the polygon using the shoelace formula.
+   * The sign tells the winding order: positive when the vertices turn counter-clockwise
+   * in a y-up coordinate system, i.e. clockwise on screen.
+   * @returns The signed area, or 0 if it has fewer than 3 vertices.
+   */
+  public signedArea(): number {
+    if (this.vertices.length < 3) return 0
+
+    let area = 0
+    const n = this.vertices.length
 
-    // If the polygon is closed and the last point is a duplicate of the first,
-    // we should temporarily remove it for the main simplification loop to avoid issues
-    // with the prev-curr-next logic at the seam.
-    let effectiveVertices = this.vertices
-    let wasClosedDuplicate = false
-    if (this.isClosed() && this.vertices.length > 1) {
-      effectiveVertices = this.vertices.slice(0, -1)
-      wasClosedDuplicate = true
+    for (let i = 0; i < n; i++) {
+      const j = (i + 1) % n
+      area += this.vertices[i].x * this.vertices[j].y
+      area -= this.vertices[j].x * this.vertices[i].y
     }
 
-    for (let i = 1; i < effectiveVertices.length - 1; i++) {
-      // Iterate up to second to last
-      const prev = simplified[simplified.length - 1] // Last point added to simplified list
-      const curr = effectiveVertices[i]
-      const next = effectiveVertices[i + 1] // The point after current
+    return area / 2
+  }
+
+  /**
+   * Splits the polygon into triangles using the ear clipping algorithm.
+   * Works for concave polygons in either winding order. Collinear vertices are skipped.
+   * Self-intersecting polygons produce triangles covering an approximation of their area.
+   * @returns New closed triangle Polygons. Returns an empty array if the polygon has fewer than 3 distinct vertices.
+   */
+  public triangulate(): Polygon[] {
+    const ring = this.isClosed() ? this.vertices.slice(0, -1) : this.vertices
+    if (ring.length < 3) return []
+
+    const sign = this.signedArea() >= 0 ? 1 : -1
+    const indices = ring.map((_, i) => i)
+    const triangles: Polygon[] = []
+
+    // Orientation of the corner a-b-c, positive when it turns the same way as the polygon
+    const turn = (a: Point, b: Point, c: Point) =>
+      sign * ((b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x))
+
+    const isInTriangle = (p: Point, a: Point, b: Point, c: Point) =>
+      !p.equals(a) &&
+      !p.equals(b) &&
+      !p.equals(c) &&
+      turn(a, b, p) >= 0 &&
+      turn(b, c, p) >= 0 &&
+      turn(c, a, p) >= 0
+
+    while (indices.length > 3) {
+      const count = indices.length
+      let clipped = false
+
+      for (let i = 0; i < count; i++) {
+        const a = ring[indices[(i + count - 1) % count]]
+        const b = ring[indices[i]]
+        const c = ring[indices[(i + 1) % count]]
+        const corner = turn(a, b, c)
 
-      // If prev, curr, next are collinear, curr might be redundant.
-      // We check distance from curr to line segment prev-next.
-      const line = new Line(prev, next)
-      const distance = line.distanceToPoint(curr)
+        // A collinear vertex adds no area; drop it
+        if (Math.abs(corner) < 1e-10) {
+          indices.splice(i, 1)
+          clipped = true
+          break
+        }
+        if (corner < 0) continue
+
+        const isEar = indices.every(
+          (index) => !isInTriangle(ring[index], a, b, c),
+        )
+        if (isEar) {
+          triangles.push(Polygon.triangle(a, b, c))
+          indices.splice(i, 1)
+          clipped = true
+          break
+        }
+      }
 
-      if (distance > tolerance) {
-        simplified.push(curr.clone())
+      // Only happens for self-intersecting polygons; clip the sharpest convex corner anyway
+      if (!clipped) {
+        let best = 0
+        let bestTurn = -Infinity
+        for (let i = 0; i < count; i++) {
+          const corner = turn(
+            ring[indices[(i + count - 1) % count]],
+            ring[indices[i]],
+            ring[indices[(i + 1) % count]],
+          )
+          if (corner > bestTurn) {
+            bestTurn = corner
+            best = i
+          }
+        }
+        if (bestTurn > 0) {
+          triangles.push(
+            Polygon.triangle(
+              ring[indices[(best + count - 1) % count]],
+              ring[indices[best]],
+              ring[indices[(best + 1) % count]],
+            ),
+          )
+        }
+        indices.splice(best, 1)
       }
     }
 
-    // Always add the last distinct point of the original set
-    if (effectiveVertices.length > 1) {
-      // ensure there is a last point
-      simplified.push(effectiveVertices[effectiveVertices.length - 1].clone())
+    const [a, b, c] = indices.map((index) => ring[index])
+    if (Math.abs(turn(a, b, c)) >= 1e-10) {
+      triangles.push(Polygon.triangle(a, b, c))
     }
 
-    // If it was closed by a duplicate point, re-close it if needed based on the new simplified shape
-    if (
-      wasClosedDuplicate &&
-      simplified.length > 1 &&
-      !simplified[0].equals(simplified[simplified.length - 1])
-    ) {
-      simplified.push(simplified[0].clone())
+    return triangles
+  }
+
+  /**
+   * Creates a polygon whose edges are parallel to this polygon's edges at a given distance.
+   * The polygon is treated as closed. Corners where the offset edges move apart are filled
+   * according to the join type; where they overlap, the edges are cut at their intersection.
+   * Where the offset outline crosses itself, it is cut into loops and the loops winding against
+   * the polygon are dropped: they are where an inset went past the middle of a part of the
+   * polygon, or where an outset overlaps itself. An inset can thus split the polygon into several
+   * parts, or collapse it entirely; the parts keep the winding of the polygon.
+   * @param distance The offset distance. Positive grows the polygon, negative shrinks it.
+   * @param joinType How to fill the gap at corners. Defaults to JoinType.Miter.
+   * @param miterLimit The maximum ratio of the miter length to the distance before a miter
+   * join is beveled instead. Defaults to 4.
+   * @param tolerance The maximum distance between a round join and the true arc. Defaults to 0.25.
+   * @returns New closed Polygons, one per part. Returns an empty array if an inset collapses the
+   * polygon, or a clone if the distance is 0 or the polygon has fewer than 3 distinct vertices.
+   */
+  public offset(
+    distance: number,
+    joinType: JoinType = JoinType.Miter,
+    miterLimit: number = 4,
+    tolerance: number = 0.25,
+  ): Polygon[] {
+    const ring = (
+      this.isClosed() ? this.vertices.slice(0, -1) : this.vertices
+    ).filter((vertex, i, all) => !vertex.equals(all[(i + 1) % all.length]))
+    if (distance === 0 || ring.length < 3) return [this.clone()]
+
+    const sign = this.signedArea() >= 0 ? 1 : -1
+    const n = ring.length
+    // Outward unit normal of the edge starting at each vertex
+    const normals = ring.map((vertex, i) => {
+      const next = ring[(i + 1) % n]
+      return new Vector(
+        sign * (next.y - vertex.y),
+        -sign * (next.x - vertex.x),
+      ).normalize()
+    })
+
+    const radius = Math.abs(distance)
+    const maxStep =
+      radius > tolerance ? 2 * Math.acos(1 - tolerance / radius) : Math.PI / 2
+    const result: Point[] = []
+
+    for (let i = 0; i < n; i++) {
+      const vertex = ring[i]
+      const n0 = normals[(i + n - 1) % n]
+      const n1 = normals[i]
+      const cos = n0.dot(n1)
+      const sin = n0.cross(n1)
+
+      // The offset edges move apart at convex corners when growing, and at concave ones when shrinking
+      const opensGap = sign * sin * distance > 0
+      const from = Point.add(vertex, Vector.multiply(n0, distance))
+      const to = Point.add(vertex, Vector.multiply(n1, distance))
+
+      if (Math.abs(sin) < 1e-10 && cos > 0) {
+        result.push(to)
+      } else if (!opensGap) {
+        // The offset edges overlap; their intersection is the miter point
+        if (1 + cos > 1e-10) {
+          result.push(
+            Point.add(
+              vertex,
+              Vector.multiply(n0.clone().add(n1), distance / (1 + cos)),
+            ),
+          )
+        } else {
+          result.push(from, to)
+        }
+      } else if (joinType === JoinType.Round) {
+        const sweep = Math.atan2(sin, cos)
+        const steps = Math.max(1, Math.ceil(Math.abs(sweep) / maxStep))
+        const start = n0.angle()
+        for (let k = 0; k <= steps; k++) {
+          result.push(
+            Point.add(
+              vertex,
+              Vector.fromAngle(start + (sweep * k) / steps, distance),
+            ),
+          )
+        }
+      } else if (
+        joinType === JoinType.Miter &&
+        1 + cos > 1e-10 &&
+        Math.sqrt(2 / (1 + cos)) <= miterLimit
+      ) {
+        result.push(
+          Point.add(
+            vertex,
+            Vector.multiply(n0.clone().add(n1), distance / (1 + cos)),
+          ),
+        )
+      } else {
+        result.push(from, to)
+      }
     }
 
-    this.vertices = simplified
-    return this
+    return splitLoops(result)
+      .map((loop) => new Polygon(loop))
+      .filter((loop) => sign * loop.signedArea() > 1e-10)
+      .map((loop) => loop.close())
   }
 
   /**
@@ -1841,6 +4074,17 @@ export class Polygon {
     return true
   }
 
+  /**
+   * Converts this polygon to plain JSON, e.g. for storage or `JSON.stringify`.
+   * @returns The JSON representation.
+   */
+  public toJSON(): PolygonJSON {
+    return {
+      type: GeometryType.Polygon,
+      points: this.vertices.map((v) => [v.x, v.y]),
+    }
+  }
+
   /**
    * Returns a string representation of this polygon.
    * @returns A string in the format "Polygon([(x1, y1), (x2, y2), ...])".
@@ -1954,6 +4198,29 @@ export class Polygon {
     return poly
   }
 
+  /**
+   * Creates a polygon that approximates an ellipse.
+   * @param ellipse The Ellipse object to approximate.
+   * @param segments The number of line segments to use for the approximation. Must be 3 or more.
+   * @returns A new Polygon instance approximating the ellipse.
+   * @throws Error if segments is less than 3.
+   */
+  public static fromEllipse(ellipse: Ellipse, segments: number = 32): Polygon {
+    if (segments < 3) {
+      throw new Error('Ellipse approximation must have at least 3 segments')
+    }
+
+    const vertices: Point[] = []
+    const angleStep = (2 * Math.PI) / segments
+
+    for (let i = 0; i < segments; i++) {
+      vertices.push(ellipse.pointAt(i * angleStep))
+    }
+    const poly = new Polygon(vertices)
+    poly.close()
+    return poly
+  }
+
   /**
    * Computes the convex hull of a set of points using the Monotone Chain algorithm.
    * @param points An array of Points.
@@ -2021,4 +4288,15 @@ export class Polygon {
     const hullVertices = lowerHull.concat(upperHull)
     return new Polygon(hullVertices) // Constructor clones vertices
   }
+
+  /**
+   * Recreates a Polygon from plain JSON.
+   * @param data The output of `toJSON`.
+   * @returns A new Polygon.
+   * @throws If the data isn't tagged as a polygon.
+   */
+  public static fromJSON(data: PolygonJSON): Polygon {
+    assertGeometryType(data, GeometryType.Polygon)
+    return new Polygon(data.points.map(([x, y]) => new Point(x, y)))
+  }
 }
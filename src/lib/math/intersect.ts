@@ -0,0 +1,141 @@
+/**
+ * @file Intersection points between any two geometry primitives.
+ * Shapes are compared by their outlines: a rectangle or polygon inside another
+ * shape without touching its outline has no intersection points.
+ */
+
+import {
+  Circle,
+  Ellipse,
+  Line,
+  Point,
+  Polygon,
+  Rectangle,
+  Vector,
+} from './geometry'
+
+export type IntersectableGeometry = Line | Rectangle | Circle | Polygon
+
+/** Points closer than this are reported once. */
+const MERGE_DISTANCE = 1e-9
+
+/**
+ * Gets the outline of a shape as segments, in drawing order.
+ * Polygons follow `Polygon.getEdges`, so an open polygon is treated as closed.
+ */
+function getSegments(geometry: Line | Rectangle | Polygon): Line[] {
+  if (geometry instanceof Line) return [geometry]
+  if (geometry instanceof Rectangle) {
+    return Polygon.fromRectangle(geometry.clone().normalize()).getEdges()
+  }
+  return geometry.getEdges()
+}
+
+/**
+ * Finds where two segments meet. Collinear overlapping segments meet at the ends of the overlap.
+ * @returns New Points, sorted along the first segment.
+ */
+function intersectSegments(a: Line, b: Line): Point[] {
+  const point = a.intersects(b)
+  if (point) return [point]
+
+  const direction = a.direction()
+  const length = direction.length()
+  if (length === 0) {
+    return b.containsPoint(a.start, MERGE_DISTANCE) ? [a.start.clone()] : []
+  }
+
+  // Line.intersects ignores parallel segments; they only meet if b lies on a's line
+  const offset = (p: Point) =>
+    Math.abs(direction.cross(new Vector(p.x - a.start.x, p.y - a.start.y))) /
+    length
+  if (offset(b.start) > MERGE_DISTANCE || offset(b.end) > MERGE_DISTANCE) {
+    return []
+  }
+
+  const project = (p: Point) =>
+    direction.dot(new Vector(p.x - a.start.x, p.y - a.start.y)) /
+    (length * length)
+  const t0 = Math.max(0, Math.min(project(b.start), project(b.end)))
+  const t1 = Math.min(1, Math.max(project(b.start), project(b.end)))
+  if (t0 > t1) return []
+
+  return t0 === t1 ? [a.pointAt(t0)] : [a.pointAt(t0), a.pointAt(t1)]
+}
+
+/**
+ * Finds where a segment crosses a circle.
+ * @returns New Points, sorted along the segment.
+ */
+function intersectSegmentCircle(segment: Line, circle: Circle): Point[] {
+  return Ellipse.fromCircle(circle).intersectLine(segment)
+}
+
+/**
+ * Finds where the outlines of two circles cross.
+ * Coincident circles share every point and report none.
+ * @returns New Points.
+ */
+function intersectCircles(a: Circle, b: Circle): Point[] {
+  const distance = a.center.distanceTo(b.center)
+  if (
+    distance === 0 ||
+    distance > a.radius + b.radius + MERGE_DISTANCE ||
+    distance < Math.abs(a.radius - b.radius) - MERGE_DISTANCE
+  ) {
+    return []
+  }
+
+  // Distance from a's center to the chord joining the intersections, and half the chord
+  const along =
+    (distance * distance + a.radius * a.radius - b.radius * b.radius) /
+    (2 * distance)
+  const half = Math.sqrt(Math.max(0, a.radius * a.radius - along * along))
+
+  const ux = (b.center.x - a.center.x) / distance
+  const uy = (b.center.y - a.center.y) / distance
+  const mid = new Point(a.center.x + ux * along, a.center.y + uy * along)
+
+  if (half <= MERGE_DISTANCE) return [mid]
+  return [
+    new Point(mid.x - uy * half, mid.y + ux * half),
+    new Point(mid.x + uy * half, mid.y - ux * half),
+  ]
+}
+
+function dedupe(points: Point[]): Point[] {
+  return points.filter(
+    (point, i) =>
+      !points.slice(0, i).some((other) => other.equals(point, MERGE_DISTANCE)),
+  )
+}
+
+/**
+ * Finds the points where the outlines of two shapes cross or touch.
+ * Where outlines overlap along a stretch (collinear edges), the ends of the overlap are reported.
+ * @param a The first shape.
+ * @param b The second shape.
+ * @returns New Points, without duplicates. Unless `a` is a circle, they are ordered
+ * along the outline of `a`, so for a Line they are sorted from its start to its end.
+ */
+export function intersect(
+  a: IntersectableGeometry,
+  b: IntersectableGeometry,
+): Point[] {
+  if (a instanceof Circle) {
+    return b instanceof Circle ? intersectCircles(a, b) : intersect(b, a)
+  }
+
+  const points = getSegments(a).flatMap((segment) => {
+    const hits =
+      b instanceof Circle
+        ? intersectSegmentCircle(segment, b)
+        : getSegments(b).flatMap((other) => intersectSegments(segment, other))
+
+    return hits.sort(
+      (p, q) => p.distanceTo(segment.start) - q.distanceTo(segment.start),
+    )
+  })
+
+  return dedupe(points)
+}
@@ -0,0 +1,447 @@
+/**
+ * @file R-tree spatial index of keys by axis-aligned bounding box.
+ * Dynamic insertion with least-enlargement subtree choice and a split that
+ * minimizes overlap (after the R*-tree), which keeps queries fast as items move.
+ */
+
+import { Point, Rectangle } from './geometry'
+
+interface Box {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+interface Entry<T> extends Box {
+  key: T
+}
+
+interface Node<T> extends Box {
+  /** Entries in a leaf, child nodes otherwise. */
+  children: (Node<T> | Entry<T>)[]
+  leaf: boolean
+  /** 1 for leaves, growing towards the root. */
+  height: number
+}
+
+const MAX_ENTRIES = 9
+const MIN_ENTRIES = 4
+
+function createNode<T>(
+  children: (Node<T> | Entry<T>)[],
+  leaf: boolean,
+  height: number,
+): Node<T> {
+  const node: Node<T> = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+    children,
+    leaf,
+    height,
+  }
+  refit(node)
+  return node
+}
+
+function toBox(rect: Rectangle): Box {
+  const { x, y, width, height } = rect.clone().normalize()
+  return { minX: x, minY: y, maxX: x + width, maxY: y + height }
+}
+
+function extend(box: Box, other: Box) {
+  box.minX = Math.min(box.minX, other.minX)
+  box.minY = Math.min(box.minY, other.minY)
+  box.maxX = Math.max(box.maxX, other.maxX)
+  box.maxY = Math.max(box.maxY, other.maxY)
+}
+
+/** Recomputes the box of a node from its children. */
+function refit<T>(node: Node<T>) {
+  node.minX = node.minY = Infinity
+  node.maxX = node.maxY = -Infinity
+  node.children.forEach((child) => extend(node, child))
+}
+
+function boxOf(items: Box[]): Box {
+  const box = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  }
+  items.forEach((item) => extend(box, item))
+  return box
+}
+
+function area(box: Box): number {
+  return (box.maxX - box.minX) * (box.maxY - box.minY)
+}
+
+function margin(box: Box): number {
+  return box.maxX - box.minX + (box.maxY - box.minY)
+}
+
+function enlargedArea(box: Box, other: Box): number {
+  return (
+    (Math.max(box.maxX, other.maxX) - Math.min(box.minX, other.minX)) *
+    (Math.max(box.maxY, other.maxY) - Math.min(box.minY, other.minY))
+  )
+}
+
+function intersectionArea(a: Box, b: Box): number {
+  const width = Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX)
+  const height = Math.min(a.maxY, b.maxY) - Math.max(a.minY, b.minY)
+  return Math.max(0, width) * Math.max(0, height)
+}
+
+function intersects(a: Box, b: Box): boolean {
+  return (
+    a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY
+  )
+}
+
+function contains(outer: Box, inner: Box): boolean {
+  return (
+    outer.minX <= inner.minX &&
+    outer.minY <= inner.minY &&
+    outer.maxX >= inner.maxX &&
+    outer.maxY >= inner.maxY
+  )
+}
+
+/** Distance from a point to the closest point of a box; 0 inside. */
+function distanceToBox(point: Point, box: Box): number {
+  const dx = Math.max(box.minX - point.x, 0, point.x - box.maxX)
+  const dy = Math.max(box.minY - point.y, 0, point.y - box.maxY)
+  return Math.hypot(dx, dy)
+}
+
+/** Sum of the margins of every allowed split of sorted items; lower means squarer groups. */
+function splitMargin(items: Box[]): number {
+  let total = 0
+  for (let k = MIN_ENTRIES; k <= items.length - MIN_ENTRIES; k++) {
+    total += margin(boxOf(items.slice(0, k))) + margin(boxOf(items.slice(k)))
+  }
+  return total
+}
+
+/**
+ * Splits an overflowing node in two. The node keeps the first group.
+ * @returns The new sibling holding the second group.
+ */
+function splitNode<T>(node: Node<T>): Node<T> {
+  const byX = [...node.children].sort((a, b) => a.minX - b.minX)
+  const byY = [...node.children].sort((a, b) => a.minY - b.minY)
+  const items = splitMargin(byX) <= splitMargin(byY) ? byX : byY
+
+  let best = MIN_ENTRIES
+  let bestOverlap = Infinity
+  let bestArea = Infinity
+
+  for (let k = MIN_ENTRIES; k <= items.length - MIN_ENTRIES; k++) {
+    const first = boxOf(items.slice(0, k))
+    const second = boxOf(items.slice(k))
+    const overlap = intersectionArea(first, second)
+    const totalArea = area(first) + area(second)
+
+    if (
+      overlap < bestOverlap ||
+      (overlap === bestOverlap && totalArea < bestArea)
+    ) {
+      best = k
+      bestOverlap = overlap
+      bestArea = totalArea
+    }
+  }
+
+  node.children = items.slice(0, best)
+  refit(node)
+  return createNode(items.slice(best), node.leaf, node.height)
+}
+
+/**
+ * A spatial index of keys by bounding box, e.g. shape ids by shape bounds.
+ * Keys are unique; inserting a key again replaces its bounds.
+ */
+export class RTree<T> {
+  private root: Node<T> = createNode<T>([], true, 1)
+  /** Entries by key, so that removal doesn't need the old bounds. */
+  private entries = new Map<T, Entry<T>>()
+
+  /**
+   * The number of keys in the index.
+   */
+  public get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Adds a key to the index, or moves it if it's already indexed.
+   * @param key The key.
+   * @param bounds The bounding box of the key's item.
+   */
+  public insert(key: T, bounds: Rectangle): void {
+    if (this.entries.has(key)) this.remove(key)
+
+    const entry: Entry<T> = { key, ...toBox(bounds) }
+    this.entries.set(key, entry)
+
+    const sibling = this.insertInto(this.root, entry)
+    if (sibling) {
+      this.root = createNode<T>(
+        [this.root, sibling],
+        false,
+        this.root.height + 1,
+      )
+    }
+  }
+
+  /**
+   * Changes the bounds of a key. Adds the key if it isn't indexed yet.
+   * @param key The key.
+   * @param bounds The new bounding box.
+   */
+  public update(key: T, bounds: Rectangle): void {
+    const entry = this.entries.get(key)
+    const box = toBox(bounds)
+
+    if (
+      entry &&
+      entry.minX === box.minX &&
+      entry.minY === box.minY &&
+      entry.maxX === box.maxX &&
+      entry.maxY === box.maxY
+    ) {
+      return
+    }
+
+    this.insert(key, bounds)
+  }
+
+  /**
+   * Removes a key from the index.
+   * @param key The key.
+   * @returns False if the key wasn't indexed.
+   */
+  public remove(key: T): boolean {
+    const entry = this.entries.get(key)
+    if (!entry) return false
+
+    this.entries.delete(key)
+    this.removeFrom(this.root, entry)
+
+    // Shrink the tree when the root is left with a single child
+    while (!this.root.leaf && this.root.children.length === 1) {
+      this.root = this.root.children[0] as Node<T>
+    }
+    if (!this.root.leaf && this.root.children.length === 0) {
+      this.root = createNode<T>([], true, 1)
+    }
+    return true
+  }
+
+  /**
+   * Checks if a key is indexed.
+   * @param key The key.
+   * @returns True if the key is in the index, false otherwise.
+   */
+  public has(key: T): boolean {
+    return this.entries.has(key)
+  }
+
+  /**
+   * Gets the indexed bounds of a key.
+   * @param key The key.
+   * @returns A new Rectangle, or null if the key isn't indexed.
+   */
+  public getBounds(key: T): Rectangle | null {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    return new Rectangle(
+      entry.minX,
+      entry.minY,
+      entry.maxX - entry.minX,
+      entry.maxY - entry.minY,
+    )
+  }
+
+  /**
+   * Removes every key.
+   */
+  public clear(): void {
+    this.root = createNode<T>([], true, 1)
+    this.entries.clear()
+  }
+
+  /**
+   * Replaces the whole index.
+   * @param items The keys and their bounds.
+   */
+  public load(items: [key: T, bounds: Rectangle][]): void {
+    this.clear()
+    items.forEach(([key, bounds]) => this.insert(key, bounds))
+  }
+
+  /**
+   * Finds the keys whose bounds intersect or touch a rectangle.
+   * @param rect The query rectangle.
+   * @returns The keys, in no particular order.
+   */
+  public queryRect(rect: Rectangle): T[] {
+    const box = toBox(rect)
+    const result: T[] = []
+    const stack: Node<T>[] = [this.root]
+
+    while (stack.length > 0) {
+      const node = stack.pop()!
+      if (!intersects(box, node)) continue
+
+      if (contains(box, node)) {
+        this.collect(node, result)
+      } else if (node.leaf) {
+        for (const entry of node.children as Entry<T>[]) {
+          if (intersects(box, entry)) result.push(entry.key)
+        }
+      } else {
+        stack.push(...(node.children as Node<T>[]))
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Finds the keys whose bounds are within a distance of a point.
+   * @param point The query point.
+   * @param tolerance The distance around the point to include. Defaults to 0.
+   * @returns The keys, in no particular order.
+   */
+  public queryPoint(point: Point, tolerance: number = 0): T[] {
+    return this.queryRect(
+      new Rectangle(point.x, point.y).expand(tolerance),
+    ).filter((key) => distanceToBox(point, this.entries.get(key)!) <= tolerance)
+  }
+
+  /**
+   * Finds the keys whose bounds are closest to a point, nearest first.
+   * The distance to a box is 0 when the point is inside it.
+   * @param point The query point.
+   * @param count The maximum number of keys to return. Defaults to 1.
+   * @param maxDistance Keys further away are ignored. Defaults to Infinity.
+   * @returns The keys, sorted by distance.
+   */
+  public nearest(
+    point: Point,
+    count: number = 1,
+    maxDistance: number = Infinity,
+  ): T[] {
+    const result: T[] = []
+    // Best-first search: a queue of nodes and entries sorted by distance, nearest last
+    const queue: { item: Node<T> | Entry<T>; distance: number }[] = [
+      { item: this.root, distance: distanceToBox(point, this.root) },
+    ]
+
+    while (queue.length > 0 && result.length < count) {
+      const { item, distance } = queue.pop()!
+      if (distance > maxDistance) break
+
+      if ('key' in item) {
+        result.push(item.key)
+        continue
+      }
+
+      for (const child of item.children) {
+        const childDistance = distanceToBox(point, child)
+        let low = 0
+        let high = queue.length
+        while (low < high) {
+          const mid = (low + high) >> 1
+          if (queue[mid].distance > childDistance) low = mid + 1
+          else high = mid
+        }
+        queue.splice(low, 0, { item: child, distance: childDistance })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Gets every indexed key.
+   * @returns The keys, in insertion order.
+   */
+  public keys(): T[] {
+    return [...this.entries.keys()]
+  }
+
+  private insertInto(node: Node<T>, entry: Entry<T>): Node<T> | null {
+    extend(node, entry)
+
+    if (node.leaf) {
+      node.children.push(entry)
+    } else {
+      const sibling = this.insertInto(this.chooseChild(node, entry), entry)
+      if (sibling) node.children.push(sibling)
+    }
+
+    return node.children.length > MAX_ENTRIES ? splitNode(node) : null
+  }
+
+  /** Picks the child needing the least enlargement to fit the entry, then the smallest. */
+  private chooseChild(node: Node<T>, entry: Entry<T>): Node<T> {
+    let best = node.children[0] as Node<T>
+    let bestEnlargement = Infinity
+    let bestArea = Infinity
+
+    for (const child of node.children as Node<T>[]) {
+      const childArea = area(child)
+      const enlargement = enlargedArea(child, entry) - childArea
+
+      if (
+        enlargement < bestEnlargement ||
+        (enlargement === bestEnlargement && childArea < bestArea)
+      ) {
+        best = child
+        bestEnlargement = enlargement
+        bestArea = childArea
+      }
+    }
+
+    return best
+  }
+
+  private removeFrom(node: Node<T>, entry: Entry<T>): boolean {
+    if (!contains(node, entry)) return false
+
+    if (node.leaf) {
+      const index = node.children.indexOf(entry)
+      if (index === -1) return false
+      node.children.splice(index, 1)
+      refit(node)
+      return true
+    }
+
+    for (let i = 0; i < node.children.length; i++) {
+      const child = node.children[i] as Node<T>
+      if (this.removeFrom(child, entry)) {
+        if (child.children.length === 0) node.children.splice(i, 1)
+        refit(node)
+        return true
+      }
+    }
+    return false
+  }
+
+  private collect(node: Node<T>, result: T[]) {
+    if (node.leaf) {
+      for (const entry of node.children as Entry<T>[]) result.push(entry.key)
+    } else {
+      for (const child of node.children as Node<T>[]) {
+        this.collect(child, result)
+      }
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  Circle,
+  Ellipse,
+  Line,
+  Matrix,
+  Point,
+  Polygon,
+  Rectangle,
+} from '../math/geometry'
+import {
+  getShapeBounds,
+  getShapeTransform,
+  type Shape,
+  type ShapeGeometry,
+} from '../document/shapes'
+
+/**
+ * The part of the viewport state the renderer needs.
+ */
+export interface RenderView {
+  /** Screen position (CSS pixels) of the world origin. */
+  offset: Point
+  /** Scale factor from world units to CSS pixels. */
+  zoom: number
+  /** Area of the world currently visible, used for culling. */
+  visibleRect: Rectangle
+}
+
+/**
+ * Gets the world-to-screen transform of a view, in CSS pixels.
+ * @param view The view.
+ * @returns A new Matrix.
+ */
+export function getViewMatrix(view: RenderView): Matrix {
+  return Matrix.translation(view.offset.x, view.offset.y).scale(view.zoom)
+}
+
+/**
+ * Applies the world-to-screen transform of a view on top of the current transform.
+ * @param ctx The rendering context, already scaled to CSS pixels.
+ * @param view The view to apply.
+ */
+export function applyView(ctx: CanvasRenderingContext2D, view: RenderView) {
+  ctx.transform(...getViewMatrix(view).toArray())
+}
+
+/**
+ * Adds the outline of a geometry primitive to the current path.
+ * Does not begin, fill or stroke the path.
+ * @param ctx The rendering context.
+ * @param geometry The geometry to trace.
+ */
+export function traceGeometry(
+  ctx: CanvasRenderingContext2D,
+  geometry: ShapeGeometry,
+) {
+  if (geometry instanceof Rectangle) {
+    ctx.rect(geometry.x, geometry.y, geometry.width, geometry.height)
+  } else if (geometry instanceof Circle) {
+    ctx.moveTo(geometry.center.x + geometry.radius, geometry.center.y)
+    ctx.arc(
+      geometry.center.x,
+      geometry.center.y,
+      geometry.radius,
+      0,
+      Math.PI * 2,
+    )
+  } else if (geometry instanceof Ellipse) {
+    const start = geometry.pointAt(0)
+    ctx.moveTo(start.x, start.y)
+    ctx.ellipse(
+      geometry.center.x,
+      geometry.center.y,
+      geometry.radiusX,
+      geometry.radiusY,
+      geometry.rotation,
+      0,
+      Math.PI * 2,
+    )
+  } else if (geometry instanceof Line) {
+    ctx.moveTo(geometry.start.x, geometry.start.y)
+    ctx.lineTo(geometry.end.x, geometry.end.y)
+  } else if (geometry instanceof Polygon) {
+    const [first, ...rest] = geometry.vertices
+    if (!first) return
+
+    ctx.moveTo(first.x, first.y)
+    rest.forEach((vertex) => ctx.lineTo(vertex.x, vertex.y))
+
+    if (geometry.isClosed()) {
+      ctx.closePath()
+    }
+  }
+}
+
+/**
+ * Applies a shape's transform on top of the current transform.
+ * @param ctx The rendering context.
+ * @param shape The shape.
+ */
+export function applyShapeTransform(
+  ctx: CanvasRenderingContext2D,
+  shape: Shape,
+) {
+  if (shape.rotation === 0) return
+
+  ctx.transform(...getShapeTransform(shape).toArray())
+}
+
+/**
+ * Paints a single shape in world coordinates.
+ * @param ctx The rendering context, with the view transform already applied.
+ * @param shape The shape to paint.
+ */
+export function renderShape(ctx: CanvasRenderingContext2D, shape: Shape) {
+  const { style } = shape
+
+  ctx.save()
+  ctx.globalAlpha *= style.opacity
+  applyShapeTransform(ctx, shape)
+
+  ctx.beginPath()
+  traceGeometry(ctx, shape.geometry)
+
+  if (style.fill && !(shape.geometry instanceof Line)) {
+    ctx.fillStyle = style.fill
+    ctx.fill()
+  }
+
+  if (style.stroke && style.strokeWidth > 0) {
+    ctx.strokeStyle = style.stroke
+    ctx.lineWidth = style.strokeWidth
+    ctx.setLineDash(style.dash)
+    ctx.stroke()
+  }
+
+  ctx.restore()
+}
+
+/**
+ * Checks if any part of a shape, including its stroke, may be inside a rectangle.
+ * @param shape The shape.
+ * @param rect The rectangle in world coordinates.
+ * @returns False if the shape is certainly outside the rectangle.
+ */
+export function isShapeInRect(shape: Shape, rect: Rectangle): boolean {
+  // Miter joins can reach further than half the stroke width; the margin is generous on purpose
+  const margin = shape.style.stroke ? shape.style.strokeWidth * 2 : 0
+  return getShapeBounds(shape).expand(margin).intersects(rect)
+}
+
+/**
+ * Paints shapes in the given order, skipping hidden shapes and shapes outside the visible area.
+ * @param ctx The rendering context, scaled to CSS pixels.
+ * @param shapes The shapes in z-order, from the bottom-most to the top-most.
+ * @param view The view to render.
+ */
+export function renderShapes(
+  ctx: CanvasRenderingContext2D,
+  shapes: Shape[],
+  view: RenderView,
+) {
+  ctx.save()
+  applyView(ctx, view)
+
+  for (const shape of shapes) {
+    if (!shape.visible || !isShapeInRect(shape, view.visibleRect)) continue
+    renderShape(ctx, shape)
+  }
+
+  ctx.restore()
+}
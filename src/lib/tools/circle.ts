@@ -0,0 +1,32 @@
+import { Circle, Point } from '../math/geometry'
+import { createDragTool } from './create'
+import { ToolType, type Tool } from './tool'
+
+/**
+ * Creates the tool that draws circles inside the square spanned by the drag.
+ * Alt draws from the center instead, with the pointer on the circle.
+ * @returns A new Tool.
+ */
+export function createCircleTool(): Tool {
+  return createDragTool({
+    type: ToolType.Circle,
+    label: 'Circle',
+    shortcut: 'o',
+    getGeometry: (origin, event) => {
+      if (event.altKey) {
+        return new Circle(origin, origin.distanceTo(event.point))
+      }
+
+      const dx = event.point.x - origin.x
+      const dy = event.point.y - origin.y
+      const radius = Math.max(Math.abs(dx), Math.abs(dy)) / 2
+      return new Circle(
+        new Point(
+          origin.x + (dx < 0 ? -radius : radius),
+          origin.y + (dy < 0 ? -radius : radius),
+        ),
+        radius,
+      )
+    },
+  })
+}
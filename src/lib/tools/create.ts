@@ -0,0 +1,175 @@
+import { useHistoryStore } from '../../stores/history.store'
+import { useInteractionStore } from '../../stores/interaction.store'
+import { useSelectionStore } from '../../stores/selection.store'
+import { useToolsStore } from '../../stores/tools.store'
+import type { Point } from '../math/geometry'
+import { createAddShapesCommand } from '../document/commands'
+import {
+  createShape,
+  createShapeId,
+  type Shape,
+  type ShapeGeometry,
+  type ShapeStyle,
+} from '../document/shapes'
+import {
+  DRAG_THRESHOLD,
+  MODIFIER_KEYS,
+  type Tool,
+  type ToolKeyEvent,
+  type ToolPointerEvent,
+} from './tool'
+
+/** Step that angles snap to while shift is held. */
+export const SNAP_ANGLE = Math.PI / 12
+
+/**
+ * Gets the angle from one point to another, snapped to `SNAP_ANGLE` if requested.
+ * @param from The start point.
+ * @param to The end point.
+ * @param snap Whether to snap the angle.
+ * @returns The angle in radians.
+ */
+export function getDragAngle(from: Point, to: Point, snap: boolean): number {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x)
+  return snap ? Math.round(angle / SNAP_ANGLE) * SNAP_ANGLE : angle
+}
+
+/**
+ * Wraps a geometry into a shape with the style from the tool options.
+ * @param geometry The geometry. It is not cloned.
+ * @param id The id of the shape, to keep it stable between previews and the final shape.
+ * @param style Overrides of the style from the tool options.
+ * @returns A new shape record.
+ */
+export function createToolShape(
+  geometry: ShapeGeometry,
+  id: string,
+  style?: Partial<ShapeStyle>,
+): Shape {
+  const { options } = useToolsStore.getState()
+  return createShape(geometry, { id, style: { ...options.style, ...style } })
+}
+
+/**
+ * Adds a shape drawn with a tool to the document as one command, and selects it.
+ * @param shape The shape.
+ */
+export function commitShape(shape: Shape) {
+  useHistoryStore.getState().executeCommand(createAddShapesCommand([shape]))
+  useSelectionStore.getState().select([shape.id])
+}
+
+export interface DragToolOptions {
+  type: Tool['type']
+  label: string
+  shortcut: string
+  /**
+   * Builds the geometry spanned by a drag.
+   * @param origin World position where the drag started.
+   * @param event The current pointer event, with its modifiers.
+   */
+  getGeometry: (origin: Point, event: ToolPointerEvent) => ShapeGeometry
+}
+
+/**
+ * Creates a tool that adds a shape by dragging, showing it on the interaction layer
+ * while the drag is in progress. Presses that don't travel `DRAG_THRESHOLD` add nothing.
+ * Modifier changes update the shape without the pointer moving; Escape cancels the drag.
+ * @param options The tool description and how to build its geometry.
+ * @returns A new Tool.
+ */
+export function createDragTool(options: DragToolOptions): Tool {
+  const { type, label, shortcut, getGeometry } = options
+  let drag: {
+    origin: Point
+    /** Screen position of the press. */
+    screen: Point
+    id: string
+    moved: boolean
+  } | null = null
+  let last: ToolPointerEvent | null = null
+
+  function update(event: ToolPointerEvent) {
+    if (!drag) return
+
+    const shape = createToolShape(getGeometry(drag.origin, event), drag.id)
+    useInteractionStore.getState().setPreview([shape])
+    drag.moved = true
+  }
+
+  function cancel() {
+    useInteractionStore.getState().clearPreview()
+    drag = null
+  }
+
+  /**
+   * Replays the last pointer position with the new modifiers.
+   */
+  function onModifierChange(event: ToolKeyEvent): boolean {
+    if (!MODIFIER_KEYS.includes(event.key) || !drag?.moved || !last) {
+      return false
+    }
+
+    last = {
+      ...last,
+      shiftKey: event.shiftKey,
+      altKey: event.altKey,
+      ctrlKey: event.ctrlKey,
+    }
+    update(last)
+    return true
+  }
+
+  return {
+    type,
+    label,
+    shortcut,
+    cursor: 'crosshair',
+
+    onPointerDown: (event) => {
+      if (event.button !== 0 || drag) return
+
+      last = event
+      drag = {
+        origin: event.point,
+        screen: event.screen,
+        id: createShapeId(),
+        moved: false,
+      }
+    },
+
+    onPointerMove: (event) => {
+      last = event
+
+      if (!drag) return
+      if (
+        !drag.moved &&
+        event.screen.distanceTo(drag.screen) < DRAG_THRESHOLD
+      ) {
+        return
+      }
+      update(event)
+    },
+
+    onPointerUp: (event) => {
+      if (!drag) return
+
+      if (drag.moved) {
+        commitShape(createToolShape(getGeometry(drag.origin, event), drag.id))
+      }
+      cancel()
+    },
+
+    onKeyDown: (event) => {
+      if (event.key === 'Escape' && drag) {
+        cancel()
+        return true
+      }
+      return onModifierChange(event)
+    },
+
+    onKeyUp: (event) => onModifierChange(event),
+
+    cancel,
+  }
+}
@@ -0,0 +1,36 @@
+import { Ellipse, Point, Rectangle } from '../math/geometry'
+import { createDragTool } from './create'
+import { ToolType, type Tool } from './tool'
+
+/**
+ * Creates the tool that draws ellipses inside the rectangle spanned by the drag.
+ * Shift draws a circle and alt draws from the center.
+ * @returns A new Tool.
+ */
+export function createEllipseTool(): Tool {
+  return createDragTool({
+    type: ToolType.Ellipse,
+    label: 'Ellipse',
+    shortcut: 'e',
+    getGeometry: (origin, event) => {
+      let width = event.point.x - origin.x
+      let height = event.point.y - origin.y
+
+      if (event.shiftKey) {
+        const size = Math.max(Math.abs(width), Math.abs(height))
+        width = width < 0 ? -size : size
+        height = height < 0 ? -size : size
+      }
+
+      if (event.altKey) {
+        return new Ellipse(origin, Math.abs(width), Math.abs(height))
+      }
+      return Ellipse.fromRectangle(
+        Rectangle.fromPoints(
+          origin,
+          new Point(origin.x + width, origin.y + height),
+        ),
+      )
+    },
+  })
+}
@@ -0,0 +1,44 @@
+import { useViewportStore } from '../../stores/viewport.store'
+import type { Point } from '../math/geometry'
+import { ToolType, type Tool } from './tool'
+
+/**
+ * Creates the tool that pans the view by dragging.
+ * @returns A new Tool.
+ */
+export function createHandTool(): Tool {
+  /** Screen position of the pointer at the last move of the drag, or null when not dragging. */
+  let last: Point | null = null
+
+  return {
+    type: ToolType.Hand,
+    label: 'Hand',
+    shortcut: 'h',
+    cursor: 'grab',
+
+    getCursor: () => (last ? 'grabbing' : null),
+
+    onPointerDown: (event) => {
+      // The middle button pans too, see useTools
+      if (event.button === 0 || event.button === 1) last = event.screen
+    },
+
+    onPointerMove: (event) => {
+      if (!last) return
+
+      // Screen deltas, since the world position under the pointer moves with the view
+      useViewportStore
+        .getState()
+        .panBy(event.screen.x - last.x, event.screen.y - last.y)
+      last = event.screen
+    },
+
+    onPointerUp: () => {
+      last = null
+    },
+
+    cancel: () => {
+      last = null
+    },
+  }
+}
@@ -0,0 +1,26 @@
+import { createCircleTool } from './circle'
+import { createEllipseTool } from './ellipse'
+import { createHandTool } from './hand'
+import { createLineTool } from './line'
+import { createPenTool } from './pen'
+import { createPolygonTool, createRegularPolygonTool } from './polygon'
+import { createRectangleTool } from './rectangle'
+import { createSelectTool } from './select'
+import { registerTool } from './tool'
+import { createZoomTool } from './zoom'
+
+/**
+ * Registers the built-in tools, in toolbar order.
+ */
+export function registerTools() {
+  registerTool(createSelectTool())
+  registerTool(createRectangleTool())
+  registerTool(createCircleTool())
+  registerTool(createEllipseTool())
+  registerTool(createLineTool())
+  registerTool(createPolygonTool())
+  registerTool(createRegularPolygonTool())
+  registerTool(createPenTool())
+  registerTool(createHandTool())
+  registerTool(createZoomTool())
+}
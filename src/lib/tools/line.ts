@@ -0,0 +1,31 @@
+import { Line, Point } from '../math/geometry'
+import { createDragTool, getDragAngle } from './create'
+import { ToolType, type Tool } from './tool'
+
+/**
+ * Creates the tool that draws line segments. Shift snaps the angle to steps of
+ * `SNAP_ANGLE` and alt draws from the center.
+ * @returns A new Tool.
+ */
+export function createLineTool(): Tool {
+  return createDragTool({
+    type: ToolType.Line,
+    label: 'Line',
+    shortcut: 'l',
+    getGeometry: (origin, event) => {
+      const line = Line.fromAngle(
+        origin,
+        getDragAngle(origin, event.point, event.shiftKey),
+        origin.distanceTo(event.point),
+      )
+
+      if (event.altKey) {
+        line.start = new Point(
+          origin.x * 2 - line.end.x,
+          origin.y * 2 - line.end.y,
+        )
+      }
+      return line
+    },
+  })
+}
@@ -0,0 +1,131 @@
+import { useInteractionStore } from '../../stores/interaction.store'
+import { useToolsStore } from '../../stores/tools.store'
+import { useViewportStore } from '../../stores/viewport.store'
+import { Point, Polygon } from '../math/geometry'
+import { lerp } from '../math/utils'
+import { createShapeId, type ShapeStyle } from '../document/shapes'
+import { commitShape, createToolShape } from './create'
+import { ToolType, type Tool, type ToolPointerEvent } from './tool'
+
+/** Share of each smoothed sample taken from the previous one rather than the pointer, in [0, 1). */
+const SMOOTHING = 0.5
+
+/** Smallest distance between two samples, in CSS pixels. Closer samples are dropped as noise. */
+const MIN_SAMPLE_DISTANCE = 1
+
+/** How far the simplified stroke may stray from the smoothed samples, in CSS pixels. */
+const SIMPLIFY_TOLERANCE = 0.5
+
+/** Pressure reported while a button is down by devices without pressure support. */
+const DEFAULT_PRESSURE = 0.5
+
+/**
+ * Creates the tool that draws freehand strokes. Samples are smoothed as they come in and
+ * the finished stroke is reduced with `Polygon.simplify` into an open polygon, without fill.
+ * Its stroke width is scaled by the mean pen pressure, relative to the pressure of devices
+ * without pressure support. Escape abandons the stroke.
+ * @returns A new Tool.
+ */
+export function createPenTool(): Tool {
+  let stroke: {
+    id: string
+    /** Smoothed samples in world coordinates. */
+    points: Point[]
+    pressures: number[]
+  } | null = null
+
+  /**
+   * Gets the style of the stroke, with the width scaled by the mean pressure.
+   */
+  function getStrokeStyle(pressures: number[]): Partial<ShapeStyle> {
+    const { strokeWidth } = useToolsStore.getState().options.style
+    const pressure =
+      pressures.reduce((sum, value) => sum + value, 0) / pressures.length
+    return {
+      fill: null,
+      strokeWidth: (strokeWidth * pressure) / DEFAULT_PRESSURE,
+    }
+  }
+
+  function addSample(event: ToolPointerEvent, smooth: boolean) {
+    if (!stroke) return
+
+    const previous = stroke.points[stroke.points.length - 1]
+    const { zoom } = useViewportStore.getState()
+
+    if (event.point.distanceTo(previous) * zoom < MIN_SAMPLE_DISTANCE) return
+
+    const t = smooth ? 1 - SMOOTHING : 1
+    stroke.points.push(
+      new Point(
+        lerp(previous.x, event.point.x, t),
+        lerp(previous.y, event.point.y, t),
+      ),
+    )
+    stroke.pressures.push(event.pressure)
+    useInteractionStore
+      .getState()
+      .setPreview([
+        createToolShape(
+          new Polygon(stroke.points),
+          stroke.id,
+          getStrokeStyle(stroke.pressures),
+        ),
+      ])
+  }
+
+  function cancel() {
+    useInteractionStore.getState().clearPreview()
+    stroke = null
+  }
+
+  return {
+    type: ToolType.Pen,
+    label: 'Pen',
+    shortcut: 'p',
+    cursor: 'crosshair',
+
+    onPointerDown: (event) => {
+      if (event.button !== 0 || stroke) return
+
+      stroke = {
+        id: createShapeId(),
+        points: [event.point],
+        pressures: [event.pressure],
+      }
+    },
+
+    onPointerMove: (event) => addSample(event, true),
+
+    onPointerUp: (event) => {
+      if (!stroke) return
+
+      // End the stroke where the pointer was released, which smoothing lags behind.
+      // Released buttons report no pressure, so the last sample's is carried over.
+      addSample(
+        { ...event, pressure: stroke.pressures[stroke.pressures.length - 1] },
+        false,
+      )
+
+      if (stroke.points.length >= 2) {
+        const { zoom } = useViewportStore.getState()
+        const polygon = new Polygon(stroke.points).simplify(
+          SIMPLIFY_TOLERANCE / zoom,
+        )
+        commitShape(
+          createToolShape(polygon, stroke.id, getStrokeStyle(stroke.pressures)),
+        )
+      }
+      cancel()
+    },
+
+    onKeyDown: (event) => {
+      if (event.key !== 'Escape' || !stroke) return false
+
+      cancel()
+      return true
+    },
+
+    cancel,
+  }
+}
@@ -0,0 +1,183 @@
+import { useInteractionStore } from '../../stores/interaction.store'
+import { useToolsStore } from '../../stores/tools.store'
+import { useViewportStore } from '../../stores/viewport.store'
+import { Point, Polygon } from '../math/geometry'
+import { createShapeId } from '../document/shapes'
+import {
+  commitShape,
+  createDragTool,
+  createToolShape,
+  getDragAngle,
+} from './create'
+import {
+  DRAG_THRESHOLD,
+  MODIFIER_KEYS,
+  ToolType,
+  type Tool,
+  type ToolKeyEvent,
+  type ToolPointerEvent,
+} from './tool'
+
+/** How close a click must be to the first vertex to close the polygon, in CSS pixels. */
+const CLOSE_DISTANCE = 8
+
+/**
+ * Creates the tool that draws polygons one vertex per click. Clicking the first vertex,
+ * double-clicking or pressing Enter closes the polygon. Shift snaps the angle of the
+ * next edge to steps of `SNAP_ANGLE`, Backspace removes the last vertex and Escape
+ * abandons the polygon.
+ * @returns A new Tool.
+ */
+export function createPolygonTool(): Tool {
+  let draft: { id: string; vertices: Point[] } | null = null
+  let last: ToolPointerEvent | null = null
+
+  /**
+   * Gets where the next vertex goes for a pointer event.
+   */
+  function getNextVertex(event: ToolPointerEvent): Point {
+    if (!draft || !event.shiftKey) return event.point
+
+    const previous = draft.vertices[draft.vertices.length - 1]
+    const angle = getDragAngle(previous, event.point, true)
+    const length = previous.distanceTo(event.point)
+    return new Point(
+      previous.x + Math.cos(angle) * length,
+      previous.y + Math.sin(angle) * length,
+    )
+  }
+
+  function update() {
+    if (!draft) return
+
+    const vertices = last
+      ? [...draft.vertices, getNextVertex(last)]
+      : draft.vertices
+    useInteractionStore
+      .getState()
+      .setPreview([createToolShape(new Polygon(vertices), draft.id)])
+  }
+
+  function finish() {
+    if (draft && draft.vertices.length >= 3) {
+      commitShape(
+        createToolShape(new Polygon(draft.vertices).close(), draft.id),
+      )
+    }
+    cancel()
+  }
+
+  function cancel() {
+    useInteractionStore.getState().clearPreview()
+    draft = null
+  }
+
+  /**
+   * Replays the last pointer position with the new modifiers.
+   */
+  function onModifierChange(event: ToolKeyEvent): boolean {
+    if (!MODIFIER_KEYS.includes(event.key) || !draft || !last) return false
+
+    last = {
+      ...last,
+      shiftKey: event.shiftKey,
+      altKey: event.altKey,
+      ctrlKey: event.ctrlKey,
+    }
+    update()
+    return true
+  }
+
+  return {
+    type: ToolType.Polygon,
+    label: 'Polygon',
+    shortcut: 'y',
+    cursor: 'crosshair',
+
+    onPointerDown: (event) => {
+      if (event.button !== 0) return
+
+      last = event
+
+      if (!draft) {
+        draft = { id: createShapeId(), vertices: [event.point] }
+        update()
+        return
+      }
+
+      const { zoom } = useViewportStore.getState()
+      const [first] = draft.vertices
+      const previous = draft.vertices[draft.vertices.length - 1]
+
+      if (
+        draft.vertices.length >= 3 &&
+        event.point.distanceTo(first) * zoom <= CLOSE_DISTANCE
+      ) {
+        finish()
+        return
+      }
+
+      // The second press of a double-click lands on the vertex the first one added
+      if (event.point.distanceTo(previous) * zoom < DRAG_THRESHOLD) return
+
+      draft.vertices.push(getNextVertex(event))
+      update()
+    },
+
+    onPointerMove: (event) => {
+      last = event
+      update()
+    },
+
+    onDoubleClick: () => finish(),
+
+    onKeyDown: (event) => {
+      if (!draft) return onModifierChange(event)
+
+      switch (event.key) {
+        case 'Enter':
+          finish()
+          return true
+        case 'Escape':
+          cancel()
+          return true
+        case 'Backspace':
+          draft.vertices.pop()
+          if (draft.vertices.length === 0) {
+            cancel()
+          } else {
+            update()
+          }
+          return true
+        default:
+          return onModifierChange(event)
+      }
+    },
+
+    onKeyUp: (event) => onModifierChange(event),
+
+    cancel,
+  }
+}
+
+/**
+ * Creates the tool that draws regular polygons from the center, with a vertex under the
+ * pointer and as many sides as the tool options say. Shift snaps the rotation to steps
+ * of `SNAP_ANGLE`.
+ * @returns A new Tool.
+ */
+export function createRegularPolygonTool(): Tool {
+  return createDragTool({
+    type: ToolType.RegularPolygon,
+    label: 'Regular polygon',
+    shortcut: 'g',
+    getGeometry: (origin, event) => {
+      const { sides } = useToolsStore.getState().options
+      return Polygon.regular(
+        origin,
+        origin.distanceTo(event.point),
+        sides,
+      ).rotate(getDragAngle(origin, event.point, event.shiftKey), origin)
+    },
+  })
+}
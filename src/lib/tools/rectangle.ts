@@ -0,0 +1,38 @@
+import { Point, Rectangle } from '../math/geometry'
+import { createDragTool } from './create'
+import { ToolType, type Tool } from './tool'
+
+/**
+ * Creates the tool that draws rectangles from corner to corner.
+ * Shift draws a square and alt draws from the center.
+ * @returns A new Tool.
+ */
+export function createRectangleTool(): Tool {
+  return createDragTool({
+    type: ToolType.Rectangle,
+    label: 'Rectangle',
+    shortcut: 'r',
+    getGeometry: (origin, event) => {
+      let width = event.point.x - origin.x
+      let height = event.point.y - origin.y
+
+      if (event.shiftKey) {
+        const size = Math.max(Math.abs(width), Math.abs(height))
+        width = width < 0 ? -size : size
+        height = height < 0 ? -size : size
+      }
+
+      if (event.altKey) {
+        return Rectangle.fromCenter(
+          origin,
+          Math.abs(width) * 2,
+          Math.abs(height) * 2,
+        )
+      }
+      return Rectangle.fromPoints(
+        origin,
+        new Point(origin.x + width, origin.y + height),
+      )
+    },
+  })
+}
@@ -0,0 +1,627 @@
+import { useHistoryStore } from '../../stores/history.store'
+import { useInteractionStore } from '../../stores/interaction.store'
+import { useSelectionStore } from '../../stores/selection.store'
+import { useViewportStore } from '../../stores/viewport.store'
+import { OrientedRectangle, Point, Rectangle } from '../math/geometry'
+import { getShapeAt, getShapesInRect, MarqueeMode } from '../document/hit'
+import { createUpdateShapesCommand } from '../document/commands'
+import { ShapeType, type Shape } from '../document/shapes'
+import {
+  getHandleAt,
+  getResizeTransform,
+  getSelectionFrame,
+  HandleType,
+  moveShapes,
+  resizeFrame,
+  resizeShapes,
+  rotateShapes,
+  ROTATION_SNAP_ANGLE,
+  type ResizeHandle,
+} from '../document/selection'
+import {
+  getEdgeAt,
+  getVertexAt,
+  insertVertex,
+  isEditableShape,
+  moveVertex,
+  removeVertex,
+  type EditableShape,
+} from '../document/vertices'
+import {
+  DRAG_THRESHOLD,
+  MODIFIER_KEYS,
+  ToolType,
+  type Tool,
+  type ToolKeyEvent,
+  type ToolPointerEvent,
+} from './tool'
+
+const GestureType = {
+  Press: 'press',
+  Move: 'move',
+  Resize: 'resize',
+  Rotate: 'rotate',
+  Marquee: 'marquee',
+  Vertex: 'vertex',
+} as const
+
+type Gesture =
+  | {
+      type: typeof GestureType.Press
+      /** Screen position of the press. */
+      origin: Point
+      /** Shape to select alone if the press ends without a drag. */
+      narrowTo: string | null
+    }
+  | {
+      type: typeof GestureType.Move
+      /** World position where the drag started. */
+      origin: Point
+      shapes: Shape[]
+      moved: boolean
+    }
+  | {
+      type: typeof GestureType.Resize
+      handle: ResizeHandle
+      frame: OrientedRectangle
+      shapes: Shape[]
+      moved: boolean
+    }
+  | {
+      type: typeof GestureType.Rotate
+      /** World position where the drag started. */
+      origin: Point
+      frame: OrientedRectangle
+      shapes: Shape[]
+      moved: boolean
+    }
+  | {
+      type: typeof GestureType.Marquee
+      /** World position where the drag started. */
+      origin: Point
+      /** Ids selected when the drag started, which shift adds to and alt subtracts from. */
+      baseSelection: ReadonlySet<string>
+      moved: boolean
+    }
+  | {
+      type: typeof GestureType.Vertex
+      /** Screen position of the press. */
+      origin: Point
+      shape: EditableShape
+      index: number
+      /** Whether the vertex was inserted by the press, in a transaction the drag joins. */
+      inserted: boolean
+      moved: boolean
+    }
+
+type MarqueeGesture = Extract<Gesture, { type: typeof GestureType.Marquee }>
+
+type TransformGesture = Exclude<
+  Gesture,
+  {
+    type:
+      | typeof GestureType.Press
+      | typeof GestureType.Marquee
+      | typeof GestureType.Vertex
+  }
+>
+
+/** How far the arrow keys move the selection, in CSS pixels, and with shift held. */
+const NUDGE_DISTANCE = 1
+const LARGE_NUDGE_DISTANCE = 10
+
+/** Directions the arrow keys move the selection in. */
+const NUDGE_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+}
+
+/** Merge key of nudges, so that a run of them is undone in one step. */
+const NUDGE_MERGE_KEY = 'select/nudge'
+
+/** Resize cursors for handle directions, every 45 degrees starting from the right. */
+const RESIZE_CURSORS = ['ew-resize', 'nwse-resize', 'ns-resize', 'nesw-resize']
+
+/**
+ * Gets the resize cursor pointing away from the center of a frame through a point.
+ */
+function getResizeCursor(frame: OrientedRectangle, point: Point): string {
+  const local = frame.toLocal(point)
+  const angle = Math.atan2(local.y, local.x) + frame.rotation
+  const index = Math.round(angle / (Math.PI / 4))
+  return RESIZE_CURSORS[((index % 4) + 4) % 4]
+}
+
+/**
+ * Applies a transform gesture to the shapes it started with.
+ * @returns The transformed shapes, and the frame to draw around them if it can't be fitted to them.
+ */
+function applyGesture(
+  gesture: TransformGesture,
+  event: ToolPointerEvent,
+): { shapes: Shape[]; frame: OrientedRectangle | null } {
+  const { point } = event
+
+  switch (gesture.type) {
+    case GestureType.Move: {
+      let dx = point.x - gesture.origin.x
+      let dy = point.y - gesture.origin.y
+      // Shift constrains the move to the dominant axis
+      if (event.shiftKey) {
+        if (Math.abs(dx) > Math.abs(dy)) dy = 0
+        else dx = 0
+      }
+      return { shapes: moveShapes(gesture.shapes, dx, dy), frame: null }
+    }
+    case GestureType.Resize: {
+      const resize = getResizeTransform(gesture.frame, gesture.handle, point, {
+        keepAspectRatio: event.shiftKey,
+        fromCenter: event.altKey,
+      })
+      return {
+        shapes: resizeShapes(gesture.shapes, resize),
+        frame: resizeFrame(gesture.frame, resize),
+      }
+    }
+    case GestureType.Rotate: {
+      const { center } = gesture.frame
+      let angle =
+        Math.atan2(point.y - center.y, point.x - center.x) -
+        Math.atan2(gesture.origin.y - center.y, gesture.origin.x - center.x)
+      if (event.shiftKey) {
+        angle = Math.round(angle / ROTATION_SNAP_ANGLE) * ROTATION_SNAP_ANGLE
+      }
+      return {
+        shapes: rotateShapes(gesture.shapes, angle, center),
+        frame: gesture.frame.clone().rotate(angle),
+      }
+    }
+  }
+}
+
+/**
+ * Gets the history label of a transform gesture, e.g. "Rotate 3 shapes".
+ */
+function getGestureLabel(gesture: TransformGesture): string {
+  const verb = {
+    [GestureType.Move]: 'Move',
+    [GestureType.Resize]: 'Resize',
+    [GestureType.Rotate]: 'Rotate',
+  }[gesture.type]
+  return getTransformLabel(verb, gesture.shapes.length)
+}
+
+/**
+ * Gets the history label of a transform of shapes, e.g. "Move shape" or "Move 3 shapes".
+ */
+function getTransformLabel(verb: string, count: number): string {
+  return count === 1 ? `${verb} shape` : `${verb} ${count} shapes`
+}
+
+/**
+ * Creates the tool that selects shapes and moves, resizes and rotates them with the handles
+ * of the selection frame. Click selects the shape under the pointer and shift-click toggles it.
+ * While dragging, shift constrains the move to an axis, keeps the aspect ratio of a resize or
+ * snaps a rotation, and alt resizes from the center. Each completed drag is one command in
+ * the history; Escape cancels it. The arrow keys nudge the selection, further with shift held,
+ * and a run of nudges is one command.
+ *
+ * Dragging from empty space draws a marquee that selects the shapes it touches, or with
+ * Ctrl/Cmd held only those it contains. Shift adds them to the selection and alt removes them.
+ *
+ * Double-clicking a polygon or a line edits its vertices instead: dragging a vertex moves it,
+ * clicking an edge of a polygon inserts one there, and alt-click or Delete removes one.
+ * Each edit is one command in the history. Escape or selecting other shapes ends the editing.
+ * @returns A new Tool.
+ */
+export function createSelectTool(): Tool {
+  let gesture: Gesture | null = null
+  let last: ToolPointerEvent | null = null
+
+  /**
+   * Gets the shape whose vertices are being edited, if it can still be edited.
+   */
+  function getEditingShape(): EditableShape | null {
+    const shape = useSelectionStore.getState().getEditingShape()
+    return shape && isEditableShape(shape) ? shape : null
+  }
+
+  function commitVertexEdit(shape: EditableShape, label: string) {
+    useHistoryStore
+      .getState()
+      .executeCommand(
+        createUpdateShapesCommand(
+          [{ id: shape.id, patch: { geometry: shape.geometry } }],
+          label,
+        ),
+      )
+  }
+
+  /**
+   * Removes a vertex of the edited shape, unless it's down to its last vertices.
+   */
+  function deleteVertex(shape: EditableShape, index: number) {
+    const edited = removeVertex(shape, index)
+
+    if (!edited) return
+
+    commitVertexEdit(edited, 'Remove vertex')
+    useSelectionStore.getState().setActiveVertex(null)
+  }
+
+  /**
+   * Moves the selected shapes by a number of CSS pixels. Consecutive nudges merge in the history.
+   */
+  function nudge(dx: number, dy: number) {
+    const shapes = useSelectionStore.getState().getSelectedShapes()
+    const { zoom } = useViewportStore.getState()
+
+    if (shapes.length === 0) return
+
+    useHistoryStore.getState().executeCommand(
+      createUpdateShapesCommand(
+        moveShapes(shapes, dx / zoom, dy / zoom).map(({ id, geometry }) => ({
+          id,
+          patch: { geometry },
+        })),
+        getTransformLabel('Move', shapes.length),
+        NUDGE_MERGE_KEY,
+      ),
+    )
+  }
+
+  function update(current: TransformGesture, event: ToolPointerEvent) {
+    const { shapes, frame } = applyGesture(current, event)
+    const { setPreview, setFrame } = useInteractionStore.getState()
+
+    // Hide the originals once, so the scene isn't repainted on every move
+    setPreview(
+      shapes,
+      current.moved ? undefined : shapes.map((shape) => shape.id),
+    )
+    setFrame(frame)
+    current.moved = true
+  }
+
+  function updateMarquee(current: MarqueeGesture, event: ToolPointerEvent) {
+    const rect = Rectangle.fromPoints(current.origin, event.point)
+    const picked = getShapesInRect(
+      rect,
+      event.ctrlKey ? MarqueeMode.Contain : MarqueeMode.Intersect,
+    ).map((shape) => shape.id)
+    const { select } = useSelectionStore.getState()
+
+    if (event.altKey) {
+      const removed = new Set(picked)
+      select([...current.baseSelection].filter((id) => !removed.has(id)))
+    } else if (event.shiftKey) {
+      select([...current.baseSelection, ...picked])
+    } else {
+      select(picked)
+    }
+    useInteractionStore.getState().setMarquee(rect)
+    current.moved = true
+  }
+
+  function finish() {
+    const { clearPreview, setFrame, setMarquee } =
+      useInteractionStore.getState()
+    clearPreview()
+    setFrame(null)
+    setMarquee(null)
+    gesture = null
+  }
+
+  function cancel() {
+    if (!gesture) return
+
+    if (gesture.type === GestureType.Marquee) {
+      useSelectionStore.getState().select(gesture.baseSelection)
+    }
+    if (gesture.type === GestureType.Vertex && gesture.inserted) {
+      useHistoryStore.getState().abortTransaction()
+      useSelectionStore.getState().setActiveVertex(null)
+    }
+    finish()
+  }
+
+  /**
+   * Replays the last pointer position with the new modifiers, which change the gesture
+   * without the pointer moving.
+   */
+  function onModifierChange(event: ToolKeyEvent): boolean {
+    if (
+      !MODIFIER_KEYS.includes(event.key) ||
+      !gesture ||
+      gesture.type === GestureType.Press ||
+      gesture.type === GestureType.Vertex ||
+      !gesture.moved ||
+      !last
+    ) {
+      return false
+    }
+
+    last = {
+      ...last,
+      shiftKey: event.shiftKey,
+      altKey: event.altKey,
+      ctrlKey: event.ctrlKey,
+    }
+    if (gesture.type === GestureType.Marquee) {
+      updateMarquee(gesture, last)
+    } else {
+      update(gesture, last)
+    }
+    return true
+  }
+
+  return {
+    type: ToolType.Select,
+    label: 'Select',
+    shortcut: 'v',
+    cursor: 'default',
+
+    getCursor: ({ point }) => {
+      const { zoom } = useViewportStore.getState()
+      const editing = getEditingShape()
+
+      if (editing) {
+        if (getVertexAt(editing, point, zoom) !== null) return 'pointer'
+        if (
+          editing.type === ShapeType.Polygon &&
+          getEdgeAt(editing, point, zoom)
+        ) {
+          return 'copy'
+        }
+        return getShapeAt(point, zoom) ? 'move' : null
+      }
+
+      const frame = getSelectionFrame(
+        useSelectionStore.getState().getSelectedShapes(),
+      )
+      const handle = frame && getHandleAt(frame, point, zoom)
+
+      if (frame && handle === HandleType.Rotate) return 'crosshair'
+      if (frame && handle) return getResizeCursor(frame, point)
+      return getShapeAt(point, zoom) ? 'move' : null
+    },
+
+    onPointerDown: (event) => {
+      if (event.button !== 0 || gesture) return
+
+      last = event
+      const { point } = event
+      const { zoom } = useViewportStore.getState()
+      const selection = useSelectionStore.getState()
+      const editing = getEditingShape()
+
+      if (editing) {
+        let index = getVertexAt(editing, point, zoom)
+        let shape = editing
+        let inserted = false
+
+        if (index !== null && event.altKey) {
+          deleteVertex(editing, index)
+          return
+        }
+
+        // Clicking an edge inserts a vertex, which can be dragged right away. The insertion
+        // and the drag are one undo step, ended when the pointer is released.
+        if (index === null && editing.type === ShapeType.Polygon) {
+          const edge = getEdgeAt(editing, point, zoom)
+          if (edge) {
+            shape = insertVertex(editing, edge)
+            index = edge.index + 1
+            inserted = true
+            useHistoryStore.getState().beginTransaction('Insert vertex')
+            commitVertexEdit(shape, 'Insert vertex')
+          }
+        }
+
+        if (index !== null) {
+          selection.setActiveVertex(index)
+          gesture = {
+            type: GestureType.Vertex,
+            origin: event.screen,
+            shape,
+            index,
+            inserted,
+            moved: false,
+          }
+          return
+        }
+      }
+
+      const selected = selection.getSelectedShapes()
+      const frame = editing ? null : getSelectionFrame(selected)
+      const handle = frame && getHandleAt(frame, point, zoom)
+
+      if (frame && handle) {
+        gesture =
+          handle === HandleType.Rotate
+            ? {
+                type: GestureType.Rotate,
+                origin: point,
+                frame,
+                shapes: selected,
+                moved: false,
+              }
+            : {
+                type: GestureType.Resize,
+                handle,
+                frame,
+                shapes: selected,
+                moved: false,
+              }
+        return
+      }
+
+      const hit = getShapeAt(point, zoom)
+
+      if (!hit) {
+        gesture = {
+          type: GestureType.Marquee,
+          origin: point,
+          baseSelection: selection.selectedIds,
+          moved: false,
+        }
+        return
+      }
+
+      const { id } = hit.shape
+      let narrowTo: string | null = null
+
+      if (event.shiftKey) {
+        selection.toggleSelection(id)
+      } else if (!selection.isSelected(id)) {
+        selection.select([id])
+      } else {
+        // Keep the rest of the selection until we know whether this is a drag
+        narrowTo = id
+      }
+      gesture = { type: GestureType.Press, origin: event.screen, narrowTo }
+    },
+
+    onPointerMove: (event) => {
+      last = event
+
+      if (!gesture) return
+
+      if (gesture.type === GestureType.Marquee) {
+        const origin = useViewportStore.getState().worldToScreen(gesture.origin)
+        if (
+          gesture.moved ||
+          event.screen.distanceTo(origin) >= DRAG_THRESHOLD
+        ) {
+          updateMarquee(gesture, event)
+        }
+        return
+      }
+
+      if (gesture.type === GestureType.Vertex) {
+        if (
+          gesture.moved ||
+          event.screen.distanceTo(gesture.origin) >= DRAG_THRESHOLD
+        ) {
+          useInteractionStore
+            .getState()
+            .setPreview(
+              [moveVertex(gesture.shape, gesture.index, event.point)],
+              gesture.moved ? undefined : [gesture.shape.id],
+            )
+          gesture.moved = true
+        }
+        return
+      }
+
+      if (gesture.type === GestureType.Press) {
+        if (event.screen.distanceTo(gesture.origin) < DRAG_THRESHOLD) return
+
+        const shapes = useSelectionStore.getState().getSelectedShapes()
+        if (shapes.length === 0) {
+          gesture = null
+          return
+        }
+        gesture = {
+          type: GestureType.Move,
+          origin: useViewportStore.getState().screenToWorld(gesture.origin),
+          shapes,
+          moved: false,
+        }
+      }
+
+      update(gesture, event)
+    },
+
+    onPointerUp: (event) => {
+      if (!gesture) return
+
+      if (gesture.type === GestureType.Press) {
+        if (gesture.narrowTo) {
+          useSelectionStore.getState().select([gesture.narrowTo])
+        }
+      } else if (gesture.type === GestureType.Marquee) {
+        // A click on empty space deselects everything, unless it's meant to add or subtract
+        if (!gesture.moved && !event.shiftKey && !event.altKey) {
+          useSelectionStore.getState().clearSelection()
+        }
+      } else if (gesture.type === GestureType.Vertex) {
+        if (gesture.moved) {
+          commitVertexEdit(
+            moveVertex(gesture.shape, gesture.index, event.point),
+            'Move vertex',
+          )
+        }
+        if (gesture.inserted) useHistoryStore.getState().commitTransaction()
+      } else if (gesture.moved && last) {
+        const { shapes } = applyGesture(gesture, last)
+
+        useHistoryStore.getState().executeCommand(
+          createUpdateShapesCommand(
+            shapes.map(({ id, geometry, rotation }) => ({
+              id,
+              patch: { geometry, rotation },
+            })),
+            getGestureLabel(gesture),
+          ),
+        )
+      }
+
+      finish()
+    },
+
+    onDoubleClick: ({ point }) => {
+      const { zoom } = useViewportStore.getState()
+      const hit = getShapeAt(point, zoom)
+      const selection = useSelectionStore.getState()
+
+      if (hit && isEditableShape(hit.shape)) {
+        if (hit.shape.id !== selection.editingId) {
+          selection.startEditing(hit.shape.id)
+        }
+      } else {
+        selection.stopEditing()
+      }
+    },
+
+    onKeyDown: (event) => {
+      const selection = useSelectionStore.getState()
+
+      if (event.key === 'Escape') {
+        if (gesture) {
+          cancel()
+        } else if (selection.editingId !== null) {
+          selection.stopEditing()
+        } else {
+          selection.clearSelection()
+        }
+        return true
+      }
+
+      const editing = getEditingShape()
+      if (
+        (event.key === 'Delete' || event.key === 'Backspace') &&
+        editing &&
+        selection.activeVertex !== null &&
+        !gesture
+      ) {
+        deleteVertex(editing, selection.activeVertex)
+        return true
+      }
+
+      const direction = NUDGE_DIRECTIONS[event.key]
+      if (direction && !editing && !gesture && selection.selectedIds.size > 0) {
+        const distance = event.shiftKey ? LARGE_NUDGE_DISTANCE : NUDGE_DISTANCE
+        nudge(direction[0] * distance, direction[1] * distance)
+        return true
+      }
+      return onModifierChange(event)
+    },
+
+    onKeyUp: (event) => onModifierChange(event),
+
+    cancel,
+  }
+}
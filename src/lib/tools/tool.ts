@@ -0,0 +1,110 @@
+import type { Point } from '../math/geometry'
+
+export const ToolType = {
+  Select: 'select',
+  Rectangle: 'rectangle',
+  Circle: 'circle',
+  Ellipse: 'ellipse',
+  Line: 'line',
+  Polygon: 'polygon',
+  RegularPolygon: 'regular-polygon',
+  Pen: 'pen',
+  Hand: 'hand',
+  Zoom: 'zoom',
+} as const
+
+export type ToolType = Enum<typeof ToolType>
+
+/** How far the pointer must travel before a press becomes a drag, in CSS pixels. */
+export const DRAG_THRESHOLD = 3
+
+/** Keys whose changes tools replay the last pointer event for, as they change the gesture. */
+export const MODIFIER_KEYS = ['Shift', 'Alt', 'Control', 'Meta']
+
+/**
+ * A pointer event over the workspace, normalized for tools.
+ */
+export interface ToolPointerEvent {
+  /** Position in world coordinates. */
+  point: Point
+  /** Position in CSS pixels relative to the workspace. */
+  screen: Point
+  /** The button that changed, as in `PointerEvent.button`. */
+  button: number
+  /** Pen pressure in [0, 1]; 0.5 for devices without pressure while a button is down. */
+  pressure: number
+  pointerType: string
+  shiftKey: boolean
+  altKey: boolean
+  /** Whether Ctrl, or Cmd on macOS, is held. */
+  ctrlKey: boolean
+}
+
+/**
+ * A key event, normalized for tools.
+ */
+export interface ToolKeyEvent {
+  key: string
+  repeat: boolean
+  shiftKey: boolean
+  altKey: boolean
+  /** Whether Ctrl, or Cmd on macOS, is held. */
+  ctrlKey: boolean
+}
+
+/**
+ * Turns user input over the workspace into document changes. A tool is a small state
+ * machine: it keeps the gesture in progress to itself, shows previews through the
+ * interaction store and records each completed gesture as a command in the history.
+ * Every handler is optional.
+ */
+export interface Tool {
+  type: ToolType
+  /** Human readable name, e.g. "Rectangle". */
+  label: string
+  /** Key that activates the tool, e.g. "r". */
+  shortcut: string
+  /** CSS cursor over the workspace, unless `getCursor` says otherwise. */
+  cursor: string
+  /** Gets the cursor for a pointer position, or null for the default `cursor`. */
+  getCursor?: (event: ToolPointerEvent) => string | null
+  onPointerDown?: (event: ToolPointerEvent) => void
+  onPointerMove?: (event: ToolPointerEvent) => void
+  onPointerUp?: (event: ToolPointerEvent) => void
+  onDoubleClick?: (event: ToolPointerEvent) => void
+  /** Returns true if the key was handled, so that it doesn't trigger shortcuts. */
+  onKeyDown?: (event: ToolKeyEvent) => boolean
+  onKeyUp?: (event: ToolKeyEvent) => boolean
+  /** Abandons the gesture in progress, e.g. when the pointer is lost or another tool is activated. */
+  cancel?: () => void
+}
+
+const tools = new Map<ToolType, Tool>()
+
+/**
+ * Registers a tool, making it available in the toolbar and through its shortcut.
+ * @param tool The tool.
+ * @throws Error if a tool of the same type is already registered.
+ */
+export function registerTool(tool: Tool) {
+  if (tools.has(tool.type)) {
+    throw new Error(`Tool "${tool.type}" is already registered`)
+  }
+  tools.set(tool.type, tool)
+}
+
+/**
+ * Gets a registered tool.
+ * @param type The tool type.
+ * @returns The tool, or null if no tool of this type is registered.
+ */
+export function getTool(type: ToolType): Tool | null {
+  return tools.get(type) ?? null
+}
+
+/**
+ * Gets every registered tool, in registration order.
+ */
+export function getTools(): Tool[] {
+  return [...tools.values()]
+}
@@ -0,0 +1,63 @@
+import { useDocumentStore } from '../../stores/document.store'
+import { useSelectionStore } from '../../stores/selection.store'
+import { useViewportStore } from '../../stores/viewport.store'
+import { Point } from '../math/geometry'
+import { getShapesBounds } from '../document/shapes'
+import { ToolType, type Tool } from './tool'
+
+/** Factor the zoom tool and the zoom shortcuts zoom by at each step. */
+export const ZOOM_STEP = 2
+
+/**
+ * Zooms in or out around the viewport center, animated.
+ * @param factor How much to scale the current zoom by.
+ */
+export function zoomBy(factor: number) {
+  const { zoom, width, height, screenToWorld, animateTo } =
+    useViewportStore.getState()
+  animateTo(zoom * factor, screenToWorld(new Point(width / 2, height / 2)))
+}
+
+/**
+ * Zooms to fit every visible shape in the viewport, animated. Does nothing in an empty document.
+ */
+export function zoomToFit() {
+  const shapes = useDocumentStore
+    .getState()
+    .getShapes()
+    .filter((shape) => shape.visible)
+  const bounds = getShapesBounds(shapes)
+  if (bounds) useViewportStore.getState().fitRect(bounds)
+}
+
+/**
+ * Zooms to fit the selected shapes in the viewport, animated. Does nothing without a selection.
+ */
+export function zoomToSelection() {
+  const bounds = getShapesBounds(
+    useSelectionStore.getState().getSelectedShapes(),
+  )
+  if (bounds) useViewportStore.getState().fitRect(bounds)
+}
+
+/**
+ * Creates the tool that zooms in around the clicked point, or out with alt held.
+ * @returns A new Tool.
+ */
+export function createZoomTool(): Tool {
+  return {
+    type: ToolType.Zoom,
+    label: 'Zoom',
+    shortcut: 'z',
+    cursor: 'zoom-in',
+
+    getCursor: (event) => (event.altKey ? 'zoom-out' : null),
+
+    onPointerDown: (event) => {
+      if (event.button !== 0) return
+
+      const { zoom, setZoom } = useViewportStore.getState()
+      setZoom(event.altKey ? zoom / ZOOM_STEP : zoom * ZOOM_STEP, event.screen)
+    },
+  }
+}
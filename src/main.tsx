@@ -2,6 +2,13 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './app.tsx'
+import { indexDocument } from './lib/document/spatial'
+import { persistSession } from './lib/history/persistence'
+import { registerTools } from './lib/tools'
+
+registerTools()
+indexDocument()
+void persistSession()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,137 @@
+import { create } from 'zustand'
+import { clamp } from '../lib/math/utils'
+import {
+  getShapeType,
+  type Shape,
+  type ShapeGeometry,
+  type ShapeStyle,
+} from '../lib/document/shapes'
+
+export type ShapePatch = Partial<
+  Pick<Shape, 'rotation' | 'visible'> & {
+    geometry: ShapeGeometry
+    style: Partial<ShapeStyle>
+  }
+>
+
+interface State {
+  /** Shape records by id. */
+  shapes: Record<string, Shape>
+  /** Shape ids in z-order, from the bottom-most to the top-most. */
+  order: string[]
+}
+
+interface Actions {
+  addShape: (shape: Shape, index?: number) => void
+  updateShape: (id: string, patch: ShapePatch) => void
+  removeShape: (id: string) => void
+  moveShape: (id: string, index: number) => void
+  bringToFront: (id: string) => void
+  sendToBack: (id: string) => void
+  clear: () => void
+  load: (shapes: Shape[]) => void
+  getShape: (id: string) => Shape | null
+  getShapes: () => Shape[]
+}
+
+export const useDocumentStore = create<State & Actions>((set, get) => ({
+  shapes: {},
+  order: [],
+
+  /**
+   * Adds a shape to the document.
+   * @param shape The shape record. Must have an id not used in the document.
+   * @param index The z-order position. Defaults to the top.
+   */
+  addShape: (shape: Shape, index?: number) => {
+    const { shapes, order } = get()
+
+    if (shapes[shape.id]) {
+      throw new Error(`Shape ${shape.id} already exists`)
+    }
+
+    const position = clamp(index ?? order.length, 0, order.length)
+    const newOrder = [...order]
+    newOrder.splice(position, 0, shape.id)
+
+    set({ shapes: { ...shapes, [shape.id]: shape }, order: newOrder })
+  },
+  /**
+   * Replaces properties of a shape. The record is replaced, never mutated.
+   * @param id The id of the shape.
+   * @param patch The properties to replace. Style is merged with the current style.
+   */
+  updateShape: (id: string, patch: ShapePatch) => {
+    const { shapes } = get()
+    const shape = shapes[id]
+
+    if (!shape) return
+
+    if (patch.geometry && getShapeType(patch.geometry) !== shape.type) {
+      throw new Error(`Geometry doesn't match the type of shape ${id}`)
+    }
+
+    const updated = {
+      ...shape,
+      ...patch,
+      style: { ...shape.style, ...patch.style },
+    } as Shape
+
+    set({ shapes: { ...shapes, [id]: updated } })
+  },
+  removeShape: (id: string) => {
+    const { shapes, order } = get()
+
+    if (!shapes[id]) return
+
+    const newShapes = { ...shapes }
+    delete newShapes[id]
+
+    set({ shapes: newShapes, order: order.filter((item) => item !== id) })
+  },
+  /**
+   * Moves a shape to a new z-order position.
+   * @param id The id of the shape.
+   * @param index The new position, where 0 is the bottom.
+   */
+  moveShape: (id: string, index: number) => {
+    const { order } = get()
+    const current = order.indexOf(id)
+
+    if (current === -1) return
+
+    const newOrder = order.filter((item) => item !== id)
+    newOrder.splice(clamp(index, 0, newOrder.length), 0, id)
+
+    set({ order: newOrder })
+  },
+  bringToFront: (id: string) => {
+    get().moveShape(id, get().order.length)
+  },
+  sendToBack: (id: string) => {
+    get().moveShape(id, 0)
+  },
+  clear: () => {
+    set({ shapes: {}, order: [] })
+  },
+  /**
+   * Replaces the whole document.
+   * @param shapes The shapes in z-order, from the bottom-most to the top-most.
+   */
+  load: (shapes: Shape[]) => {
+    set({
+      shapes: Object.fromEntries(shapes.map((shape) => [shape.id, shape])),
+      order: shapes.map((shape) => shape.id),
+    })
+  },
+  getShape: (id: string) => {
+    return get().shapes[id] ?? null
+  },
+  /**
+   * Gets all shapes in z-order, from the bottom-most to the top-most.
+   */
+  getShapes: () => {
+    const { shapes, order } = get()
+    return order.map((id) => shapes[id])
+  },
+}))
@@ -1,8 +1,30 @@
 import { create } from 'zustand'
+import { createCompositeCommand, type Command } from '../lib/history/commands'
+import { clamp } from '../lib/math/utils'
 
-type Command = {
-  execute: () => void
-  undo: () => void
+export type { Command }
+
+export type HistoryEntry = {
+  index: number
+  label: string | undefined
+  size: number
+  /** Whether the command is currently applied, i.e. at or before `historyIndex`. */
+  done: boolean
+}
+
+export type HistoryLimits = {
+  /** Maximum number of undo steps kept. */
+  maxDepth: number
+  /** Maximum total `size` of the kept commands, in bytes. */
+  maxSize: number
+}
+
+/** How long after a command the next one may still be merged into it, in milliseconds. */
+export const MERGE_WINDOW = 1000
+
+export const DEFAULT_LIMITS: HistoryLimits = {
+  maxDepth: 200,
+  maxSize: 64 * 1024 * 1024,
 }
 
 interface State {
@@ -10,65 +32,272 @@ interface State {
   historyIndex: number
   canUndo: boolean
   canRedo: boolean
+  limits: HistoryLimits
+  /** Commands executed since the outermost `beginTransaction`, or null outside a transaction. */
+  transaction: Command[] | null
+  transactionLabel: string | undefined
+  transactionDepth: number
+  /** When the last command was recorded, or 0 if the next one must not be merged. */
+  lastExecutedAt: number
 }
 
 interface Actions {
   executeCommand: (command: Command) => void
   undo: () => void
   redo: () => void
+  jumpTo: (index: number) => void
+  getEntries: () => HistoryEntry[]
+  setLimits: (limits: Partial<HistoryLimits>) => void
+  load: (history: Command[], historyIndex: number) => void
+  beginTransaction: (label?: string) => void
+  commitTransaction: () => void
+  abortTransaction: () => void
 }
 
-export const useHistoryStore = create<State & Actions>((set, get) => ({
-  history: [],
-  historyIndex: -1,
-  canUndo: false,
-  canRedo: false,
+/**
+ * Drops the oldest commands until the history fits within the limits.
+ * The newest command is always kept, even if it alone exceeds `maxSize`.
+ * @returns The kept commands and how many were dropped.
+ */
+function trim(history: Command[], limits: HistoryLimits) {
+  let start = Math.max(0, history.length - Math.max(1, limits.maxDepth))
+  let size = history
+    .slice(start)
+    .reduce((total, command) => total + (command.size ?? 0), 0)
+
+  while (size > limits.maxSize && start < history.length - 1) {
+    size -= history[start].size ?? 0
+    start++
+  }
+
+  return { history: history.slice(start), dropped: start }
+}
 
-  executeCommand: (command: Command) => {
-    const { history, historyIndex } = get()
-    const newHistory =
-      historyIndex < history.length - 1
-        ? history.slice(0, historyIndex + 1)
-        : history
+export const useHistoryStore = create<State & Actions>((set, get) => {
+  /**
+   * Records an already executed command, dropping the redo branch.
+   * Merges it into the previous entry when that entry accepts it in time.
+   */
+  function record(command: Command, mergeable: boolean) {
+    const { history, historyIndex, lastExecutedAt, limits } = get()
+    const newHistory = history.slice(0, historyIndex + 1)
+    const now = Date.now()
+    const previous = newHistory[newHistory.length - 1]
 
-    command.execute()
+    const merged =
+      mergeable &&
+      previous?.merge &&
+      lastExecutedAt > 0 &&
+      now - lastExecutedAt <= MERGE_WINDOW
+        ? previous.merge(command)
+        : null
 
-    const updatedHistory = [...newHistory, command]
+    const { history: updatedHistory } = trim(
+      merged ? [...newHistory.slice(0, -1), merged] : [...newHistory, command],
+      limits,
+    )
     const updatedIndex = updatedHistory.length - 1
 
     set({
       history: updatedHistory,
       historyIndex: updatedIndex,
       canUndo: true,
-      canRedo: updatedIndex < updatedHistory.length - 2,
+      canRedo: false,
+      lastExecutedAt: mergeable ? now : 0,
     })
-  },
-  undo: () => {
-    const { history, historyIndex } = get()
+  }
+
+  return {
+    history: [],
+    historyIndex: -1,
+    canUndo: false,
+    canRedo: false,
+    limits: DEFAULT_LIMITS,
+    transaction: null,
+    transactionLabel: undefined,
+    transactionDepth: 0,
+    lastExecutedAt: 0,
+
+    executeCommand: (command: Command) => {
+      const { transaction } = get()
+
+      command.execute()
+
+      if (transaction) {
+        // Merge inside the transaction too, so long drags stay cheap to replay
+        const previous = transaction[transaction.length - 1]
+        const merged = previous?.merge?.(command) ?? null
+
+        set({
+          transaction: merged
+            ? [...transaction.slice(0, -1), merged]
+            : [...transaction, command],
+        })
+        return
+      }
+
+      record(command, true)
+    },
+    undo: () => {
+      const { history, historyIndex, transaction } = get()
+
+      if (transaction) return
+
+      if (historyIndex >= 0) {
+        const command = history[historyIndex]
+        command.undo()
+
+        set({
+          historyIndex: historyIndex - 1,
+          canUndo: historyIndex > 0,
+          canRedo: true,
+          lastExecutedAt: 0,
+        })
+      }
+    },
+    redo: () => {
+      const { history, historyIndex, transaction } = get()
 
-    if (historyIndex >= 0) {
-      const command = history[historyIndex]
-      command.undo()
+      if (transaction) return
+
+      if (historyIndex + 1 < history.length) {
+        const command = history[historyIndex + 1]
+        command.execute()
+
+        set({
+          historyIndex: historyIndex + 1,
+          canUndo: true,
+          canRedo: historyIndex < history.length - 2,
+          lastExecutedAt: 0,
+        })
+      }
+    },
+    /**
+     * Undoes or redoes commands until `historyIndex` equals the given index.
+     * @param index The index of the last applied command, or -1 to undo everything.
+     */
+    jumpTo: (index: number) => {
+      const { history, transaction, undo, redo } = get()
+
+      if (transaction || index < -1 || index >= history.length) return
+
+      while (get().historyIndex > index) undo()
+      while (get().historyIndex < index) redo()
+    },
+    /**
+     * Describes every recorded command, oldest first, e.g. for a history panel.
+     */
+    getEntries: () => {
+      const { history, historyIndex } = get()
+
+      return history.map((command, index) => ({
+        index,
+        label: command.label,
+        size: command.size ?? 0,
+        done: index <= historyIndex,
+      }))
+    },
+    /**
+     * Changes the history limits and drops the oldest commands that no longer fit.
+     * The redo branch is discarded if keeping it would require dropping applied commands.
+     */
+    setLimits: (limits: Partial<HistoryLimits>) => {
+      const { history, historyIndex } = get()
+      const newLimits = { ...get().limits, ...limits }
+
+      const trimmed = trim(history, newLimits)
+
+      // Dropping the oldest redoable command would leave the rest unreplayable
+      const { history: updatedHistory, dropped } =
+        trimmed.dropped > historyIndex + 1
+          ? trim(history.slice(0, historyIndex + 1), newLimits)
+          : trimmed
+      const updatedIndex = historyIndex - dropped
 
       set({
-        historyIndex: historyIndex - 1,
-        canUndo: historyIndex > 0,
-        canRedo: true,
+        limits: newLimits,
+        history: updatedHistory,
+        historyIndex: updatedIndex,
+        canUndo: updatedIndex >= 0,
+        canRedo: updatedIndex < updatedHistory.length - 1,
       })
-    }
-  },
-  redo: () => {
-    const { history, historyIndex } = get()
+    },
+    /**
+     * Replaces the whole history, e.g. with commands restored after a reload.
+     * The commands up to `historyIndex` must already be applied to the document.
+     */
+    load: (history: Command[], historyIndex: number) => {
+      const index = clamp(historyIndex, -1, history.length - 1)
 
-    if (historyIndex + 1 < history.length) {
-      const command = history[historyIndex + 1]
-      command.execute()
+      set({
+        history,
+        historyIndex: index,
+        canUndo: index >= 0,
+        canRedo: index < history.length - 1,
+        transaction: null,
+        transactionLabel: undefined,
+        transactionDepth: 0,
+        lastExecutedAt: 0,
+      })
+    },
+    /**
+     * Starts grouping executed commands into a single undo step.
+     * Transactions nest; only the outermost commit records the step.
+     * @param label Label of the recorded step. Only the outermost label is used.
+     */
+    beginTransaction: (label?: string) => {
+      const { transaction, transactionLabel, transactionDepth } = get()
+
+      set({
+        transaction: transaction ?? [],
+        transactionLabel: transaction ? transactionLabel : label,
+        transactionDepth: transactionDepth + 1,
+      })
+    },
+    /**
+     * Ends the innermost transaction. When the outermost one ends, the commands
+     * executed during it are recorded as one undo step, if there were any.
+     */
+    commitTransaction: () => {
+      const { transaction, transactionLabel, transactionDepth } = get()
+
+      if (!transaction) return
+
+      if (transactionDepth > 1) {
+        set({ transactionDepth: transactionDepth - 1 })
+        return
+      }
+
+      set({
+        transaction: null,
+        transactionLabel: undefined,
+        transactionDepth: 0,
+      })
+
+      if (transaction.length > 0) {
+        record(
+          transaction.length === 1 && !transactionLabel
+            ? transaction[0]
+            : createCompositeCommand(transaction, transactionLabel),
+          false,
+        )
+      }
+    },
+    /**
+     * Undoes every command executed since the outermost `beginTransaction`
+     * and discards them, including those of nested transactions.
+     */
+    abortTransaction: () => {
+      const { transaction } = get()
+
+      if (!transaction) return
 
       set({
-        historyIndex: historyIndex + 1,
-        canUndo: true,
-        canRedo: historyIndex < history.length - 2,
+        transaction: null,
+        transactionLabel: undefined,
+        transactionDepth: 0,
       })
-    }
-  },
-}))
+      createCompositeCommand(transaction).undo()
+    },
+  }
+})
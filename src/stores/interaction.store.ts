@@ -0,0 +1,57 @@
+import { create } from 'zustand'
+import type { OrientedRectangle, Rectangle } from '../lib/math/geometry'
+import type { Shape } from '../lib/document/shapes'
+
+/**
+ * Transient state of the gesture in progress. Nothing here is part of the
+ * document or its history; it only feeds the interaction and overlay layers.
+ */
+interface State {
+  /** Shapes drawn on the interaction layer, e.g. drag or creation previews. */
+  previewShapes: Shape[]
+  /** Ids of document shapes hidden from the scene while their preview is shown. */
+  hiddenIds: ReadonlySet<string>
+  /** Marquee selection rectangle in world coordinates. */
+  marquee: Rectangle | null
+  /**
+   * Selection frame of the transform in progress, drawn on the overlay layer instead
+   * of the one fitted to the selected shapes, in world coordinates.
+   */
+  frame: OrientedRectangle | null
+}
+
+interface Actions {
+  setPreview: (shapes: Shape[], hiddenIds?: Iterable<string>) => void
+  clearPreview: () => void
+  setMarquee: (marquee: Rectangle | null) => void
+  setFrame: (frame: OrientedRectangle | null) => void
+}
+
+export const useInteractionStore = create<State & Actions>((set, get) => ({
+  previewShapes: [],
+  hiddenIds: new Set(),
+  marquee: null,
+  frame: null,
+
+  /**
+   * Shows preview shapes on the interaction layer.
+   * @param shapes The shapes to preview.
+   * @param hiddenIds Ids of document shapes to hide from the scene meanwhile.
+   * Keeps the current set when omitted so that the scene isn't repainted on every move.
+   */
+  setPreview: (shapes: Shape[], hiddenIds?: Iterable<string>) => {
+    set({
+      previewShapes: shapes,
+      hiddenIds: hiddenIds ? new Set(hiddenIds) : get().hiddenIds,
+    })
+  },
+  clearPreview: () => {
+    set({ previewShapes: [], hiddenIds: new Set() })
+  },
+  setMarquee: (marquee: Rectangle | null) => {
+    set({ marquee })
+  },
+  setFrame: (frame: OrientedRectangle | null) => {
+    set({ frame })
+  },
+}))
@@ -0,0 +1,118 @@
+import { create } from 'zustand'
+import { useDocumentStore } from './document.store'
+import type { Shape } from '../lib/document/shapes'
+
+/**
+ * The shapes the user is working on. Not part of the document or its history.
+ */
+interface State {
+  /** Ids of the selected shapes. May hold ids of shapes removed since they were selected. */
+  selectedIds: ReadonlySet<string>
+  /** Id of the shape whose vertices are being edited. It's always the only selected shape. */
+  editingId: string | null
+  /** Index of the highlighted vertex of the edited shape, which Delete removes. */
+  activeVertex: number | null
+}
+
+interface Actions {
+  select: (ids: Iterable<string>) => void
+  addToSelection: (ids: Iterable<string>) => void
+  removeFromSelection: (ids: Iterable<string>) => void
+  toggleSelection: (id: string) => void
+  clearSelection: () => void
+  isSelected: (id: string) => boolean
+  getSelectedShapes: () => Shape[]
+  startEditing: (id: string) => void
+  stopEditing: () => void
+  setActiveVertex: (index: number | null) => void
+  getEditingShape: () => Shape | null
+}
+
+/**
+ * Gets the state for a new selection. Vertex editing ends unless the edited shape is
+ * still the only one selected.
+ */
+function withSelection(
+  selectedIds: Set<string>,
+  editingId: string | null,
+): Partial<State> {
+  const editing =
+    editingId !== null && selectedIds.size === 1 && selectedIds.has(editingId)
+  return editing
+    ? { selectedIds }
+    : { selectedIds, editingId: null, activeVertex: null }
+}
+
+export const useSelectionStore = create<State & Actions>((set, get) => ({
+  selectedIds: new Set(),
+  editingId: null,
+  activeVertex: null,
+
+  /**
+   * Replaces the selection.
+   * @param ids The ids of the shapes to select.
+   */
+  select: (ids: Iterable<string>) => {
+    set(withSelection(new Set(ids), get().editingId))
+  },
+  addToSelection: (ids: Iterable<string>) => {
+    const { selectedIds, editingId } = get()
+    set(withSelection(new Set([...selectedIds, ...ids]), editingId))
+  },
+  removeFromSelection: (ids: Iterable<string>) => {
+    const { selectedIds, editingId } = get()
+    const removed = new Set(ids)
+    set(
+      withSelection(
+        new Set([...selectedIds].filter((id) => !removed.has(id))),
+        editingId,
+      ),
+    )
+  },
+  toggleSelection: (id: string) => {
+    const { selectedIds, addToSelection, removeFromSelection } = get()
+
+    if (selectedIds.has(id)) {
+      removeFromSelection([id])
+    } else {
+      addToSelection([id])
+    }
+  },
+  clearSelection: () => {
+    if (get().selectedIds.size > 0) set(withSelection(new Set(), null))
+  },
+  isSelected: (id: string) => {
+    return get().selectedIds.has(id)
+  },
+  /**
+   * Gets the selected shapes that are in the document, in z-order from the bottom-most to the top-most.
+   */
+  getSelectedShapes: () => {
+    const { selectedIds } = get()
+    return useDocumentStore
+      .getState()
+      .getShapes()
+      .filter((shape) => selectedIds.has(shape.id))
+  },
+  /**
+   * Starts editing the vertices of a shape, selecting it alone.
+   * @param id The id of the shape.
+   */
+  startEditing: (id: string) => {
+    set({ selectedIds: new Set([id]), editingId: id, activeVertex: null })
+  },
+  stopEditing: () => {
+    if (get().editingId !== null) set({ editingId: null, activeVertex: null })
+  },
+  setActiveVertex: (index: number | null) => {
+    set({ activeVertex: index })
+  },
+  /**
+   * Gets the shape whose vertices are being edited, if it's still in the document.
+   */
+  getEditingShape: () => {
+    const { editingId } = get()
+    if (editingId === null) return null
+    return useDocumentStore.getState().shapes[editingId] ?? null
+  },
+}))
@@ -0,0 +1,47 @@
+import { create } from 'zustand'
+import { getTool, ToolType } from '../lib/tools/tool'
+import { DEFAULT_STYLE, type ShapeStyle } from '../lib/document/shapes'
+
+/**
+ * Settings shared by the tools.
+ */
+export interface ToolOptions {
+  /** Style of the shapes the creation tools add. */
+  style: ShapeStyle
+  /** Number of sides of the regular polygons the regular polygon tool draws, at least 3. */
+  sides: number
+}
+
+interface State {
+  activeTool: ToolType
+  options: ToolOptions
+}
+
+interface Actions {
+  setActiveTool: (type: ToolType) => void
+  setOptions: (options: Partial<ToolOptions>) => void
+}
+
+export const useToolsStore = create<State & Actions>((set, get) => ({
+  activeTool: ToolType.Select,
+  options: {
+    style: DEFAULT_STYLE,
+    sides: 5,
+  },
+
+  /**
+   * Switches tools, abandoning the gesture in progress with the current tool.
+   * @param type The tool to activate. Must be registered.
+   */
+  setActiveTool: (type: ToolType) => {
+    const { activeTool } = get()
+
+    if (type === activeTool || !getTool(type)) return
+
+    getTool(activeTool)?.cancel?.()
+    set({ activeTool: type })
+  },
+  setOptions: (options: Partial<ToolOptions>) => {
+    set({ options: { ...get().options, ...options } })
+  },
+}))
@@ -0,0 +1,208 @@
+import { create } from 'zustand'
+import { Point, Rectangle } from '../lib/math/geometry'
+import { clamp, lerp } from '../lib/math/utils'
+
+export const MIN_ZOOM = 0.05
+export const MAX_ZOOM = 64
+
+/** Duration of animated view changes, in milliseconds. */
+export const VIEW_ANIMATION_DURATION = 250
+
+/** Space kept around content zoomed to fit the viewport, in CSS pixels. */
+export const FIT_PADDING = 48
+
+/** Frame request of the view animation in progress. */
+let animationFrame: number | null = null
+
+function stopAnimation() {
+  if (animationFrame !== null) {
+    cancelAnimationFrame(animationFrame)
+    animationFrame = null
+  }
+}
+
+/**
+ * Eases an animation in and out.
+ * @param t The linear progress in [0, 1].
+ * @returns The eased progress in [0, 1].
+ */
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2
+}
+
+/**
+ * Camera state of the workspace.
+ * A world point `w` is drawn at screen point `w * zoom + offset`, where screen
+ * coordinates are CSS pixels relative to the top-left corner of the workspace.
+ */
+interface State {
+  /** Width of the workspace in CSS pixels. */
+  width: number
+  /** Height of the workspace in CSS pixels. */
+  height: number
+  /** Screen position (CSS pixels) of the world origin. */
+  offset: Point
+  /** Scale factor from world units to CSS pixels. */
+  zoom: number
+  /** Ratio of device pixels to CSS pixels. */
+  pixelRatio: number
+}
+
+interface Actions {
+  setViewportSize: (width: number, height: number) => void
+  setPixelRatio: (pixelRatio: number) => void
+  setOffset: (offset: Point) => void
+  panBy: (dx: number, dy: number) => void
+  setZoom: (zoom: number, anchor?: Point) => void
+  animateTo: (zoom: number, center: Point) => void
+  fitRect: (rect: Rectangle, animate?: boolean) => void
+  reset: () => void
+  screenToWorld: (point: Point) => Point
+  worldToScreen: (point: Point) => Point
+  getVisibleRect: () => Rectangle
+}
+
+export const useViewportStore = create<State & Actions>((set, get) => ({
+  width: 0,
+  height: 0,
+  offset: Point.zero,
+  zoom: 1,
+  pixelRatio: window.devicePixelRatio || 1,
+
+  setViewportSize: (width: number, height: number) => {
+    set({ width, height })
+  },
+  setPixelRatio: (pixelRatio: number) => {
+    set({ pixelRatio })
+  },
+  setOffset: (offset: Point) => {
+    stopAnimation()
+    set({ offset: offset.clone() })
+  },
+  panBy: (dx: number, dy: number) => {
+    stopAnimation()
+    const { offset } = get()
+    set({ offset: new Point(offset.x + dx, offset.y + dy) })
+  },
+  /**
+   * Sets the zoom level, keeping the world point under `anchor` fixed on screen.
+   * @param zoom The requested zoom, clamped to [MIN_ZOOM, MAX_ZOOM].
+   * @param anchor Screen point to zoom around. Defaults to the viewport center.
+   */
+  setZoom: (zoom: number, anchor?: Point) => {
+    const { width, height, screenToWorld } = get()
+    const screenAnchor = anchor ?? new Point(width / 2, height / 2)
+    const worldAnchor = screenToWorld(screenAnchor)
+    const newZoom = clamp(zoom, MIN_ZOOM, MAX_ZOOM)
+
+    stopAnimation()
+    set({
+      zoom: newZoom,
+      offset: new Point(
+        screenAnchor.x - worldAnchor.x * newZoom,
+        screenAnchor.y - worldAnchor.y * newZoom,
+      ),
+    })
+  },
+  /**
+   * Animates the view to a zoom level centered on a world point. Any other change to the
+   * view stops the animation where it is.
+   * @param zoom The requested zoom, clamped to [MIN_ZOOM, MAX_ZOOM].
+   * @param center The world point to bring to the viewport center.
+   */
+  animateTo: (zoom: number, center: Point) => {
+    const { width, height, zoom: fromZoom, screenToWorld } = get()
+    const toZoom = clamp(zoom, MIN_ZOOM, MAX_ZOOM)
+    const from = screenToWorld(new Point(width / 2, height / 2))
+    const start = performance.now()
+
+    const step = (now: number) => {
+      const t = easeInOutCubic(
+        clamp((now - start) / VIEW_ANIMATION_DURATION, 0, 1),
+      )
+      // Interpolating the zoom's logarithm makes it change by a steady factor, which looks even
+      const frameZoom = Math.exp(lerp(Math.log(fromZoom), Math.log(toZoom), t))
+      const x = lerp(from.x, center.x, t)
+      const y = lerp(from.y, center.y, t)
+
+      set({
+        zoom: frameZoom,
+        offset: new Point(
+          width / 2 - x * frameZoom,
+          height / 2 - y * frameZoom,
+        ),
+      })
+      animationFrame = t < 1 ? requestAnimationFrame(step) : null
+    }
+
+    stopAnimation()
+    animationFrame = requestAnimationFrame(step)
+  },
+  /**
+   * Zooms and pans so that a world rectangle fills the viewport, with FIT_PADDING around it.
+   * @param rect The rectangle in world coordinates.
+   * @param animate Whether to animate the change. Defaults to true.
+   */
+  fitRect: (rect: Rectangle, animate: boolean = true) => {
+    const { width, height, animateTo } = get()
+    // An empty extent fits at any zoom, and ends up at MAX_ZOOM
+    const zoom = clamp(
+      Math.min(
+        Math.max(width - FIT_PADDING * 2, 1) / rect.width,
+        Math.max(height - FIT_PADDING * 2, 1) / rect.height,
+      ),
+      MIN_ZOOM,
+      MAX_ZOOM,
+    )
+    const center = rect.center()
+
+    if (animate) {
+      animateTo(zoom, center)
+      return
+    }
+
+    stopAnimation()
+    set({
+      zoom,
+      offset: new Point(
+        width / 2 - center.x * zoom,
+        height / 2 - center.y * zoom,
+      ),
+    })
+  },
+  reset: () => {
+    stopAnimation()
+    set({ offset: Point.zero, zoom: 1 })
+  },
+  /**
+   * Converts a point from screen coordinates (CSS pixels) to world coordinates.
+   * @param point The point in screen coordinates.
+   * @returns A new Point in world coordinates.
+   */
+  screenToWorld: (point: Point) => {
+    const { offset, zoom } = get()
+    return new Point((point.x - offset.x) / zoom, (point.y - offset.y) / zoom)
+  },
+  /**
+   * Converts a point from world coordinates to screen coordinates (CSS pixels).
+   * @param point The point in world coordinates.
+   * @returns A new Point in screen coordinates.
+   */
+  worldToScreen: (point: Point) => {
+    const { offset, zoom } = get()
+    return new Point(point.x * zoom + offset.x, point.y * zoom + offset.y)
+  },
+  /**
+   * Gets the area of the world currently visible in the viewport.
+   * @returns A new Rectangle in world coordinates.
+   */
+  getVisibleRect: () => {
+    const { width, height, offset, zoom } = get()
+    return new Rectangle(
+      -offset.x / zoom,
+      -offset.y / zoom,
+      width / zoom,
+      height / zoom,
+    )
+  },
+}))
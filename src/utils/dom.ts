@@ -0,0 +1,32 @@
+import { Point } from '../lib/math/geometry'
+
+/**
+ * Gets the position of a mouse or pointer event relative to the padding box of an element.
+ * @param element The element.
+ * @param event The event.
+ * @returns A new Point in CSS pixels.
+ */
+export function getElementPoint(
+  element: HTMLElement,
+  event: { clientX: number; clientY: number },
+): Point {
+  const rect = element.getBoundingClientRect()
+  return new Point(
+    event.clientX - rect.left - element.clientLeft,
+    event.clientY - rect.top - element.clientTop,
+  )
+}
+
+/**
+ * Checks whether an event target takes text input, so that keys typed into it
+ * shouldn't trigger shortcuts.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement)
+  )
+}